@@ -0,0 +1,43 @@
+"use client";
+
+import React from "react";
+import { useSettings } from "@/store/settings";
+
+export default function AllowlistEditor() {
+  const { allowlist, addAllowlistEntry, removeAllowlistEntry } = useSettings();
+  const [entry, setEntry] = React.useState("");
+
+  const onAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    addAllowlistEntry(entry);
+    setEntry("");
+  };
+
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs text-muted-foreground">Never redact ({allowlist.length})</summary>
+      <div className="mt-1 space-y-1">
+        {allowlist.map((value) => (
+          <div key={value} className="flex items-center gap-1 text-xs">
+            <span className="min-w-0 flex-1 truncate" title={value}>{value}</span>
+            <button className="rounded border px-1 text-[10px] hover:bg-secondary" onClick={() => removeAllowlistEntry(value)} aria-label={`Remove ${value}`}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <form className="flex items-center gap-1" onSubmit={onAdd}>
+          <input
+            className="h-7 min-w-0 flex-1 rounded border bg-background px-2 text-xs"
+            placeholder="*@ourcompany.com"
+            value={entry}
+            onChange={(e) => setEntry(e.target.value)}
+            title="Exact value, or a pattern where * matches anything"
+          />
+          <button type="submit" className="rounded border px-2 py-1 text-xs hover:bg-secondary">
+            Add
+          </button>
+        </form>
+      </div>
+    </details>
+  );
+}
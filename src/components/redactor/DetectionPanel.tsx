@@ -2,6 +2,14 @@
 
 import React from "react";
 import { useDetections } from "@/store/detections";
+import { useSettings } from "@/store/settings";
+import { getRecognizerCountries, getRecognizers, recognizerLabel } from "@/lib/recognizers";
+import { getPhoneRegions } from "@/lib/phone";
+import { formatBreakdown } from "@/lib/confidence";
+import { OCR_LANGUAGES } from "@/lib/ocr/languages";
+import RulesEditor from "@/components/redactor/RulesEditor";
+import AllowlistEditor from "@/components/redactor/AllowlistEditor";
+import FieldLabelsEditor from "@/components/redactor/FieldLabelsEditor";
 
 type Props = {
   onFocusDetection?: (id: string) => void;
@@ -12,36 +20,23 @@ type Props = {
   onApplyType: (type: string) => void;
 };
 
-const TYPE_ORDER = ["email", "phone", "url", "ipv4", "credit_card", "name"] as const;
-
-const TYPE_LABEL: Record<string, string> = {
-  email: "Email",
-  phone: "Phone",
-  url: "URL",
-  ipv4: "IP",
-  credit_card: "Credit Card",
-  name: "Name",
-};
-
-const TYPE_BADGE: Record<string, string> = {
-  email: "bg-blue-500/15 text-blue-400",
-  phone: "bg-emerald-500/15 text-emerald-400",
-  url: "bg-cyan-500/15 text-cyan-400",
-  ipv4: "bg-violet-500/15 text-violet-400",
-  credit_card: "bg-amber-500/15 text-amber-400",
-  name: "bg-pink-500/15 text-pink-400",
-};
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
 
 export default function DetectionPanel({ onFocusDetection, minConfidence, autoMode, onChangeAutoMode, onApplyAccepted, onApplyType }: Props) {
-  const { detections, grouped, acceptedById, setAccepted, acceptAllOfType, rejectAllOfType } = useDetections();
+  const { detections, grouped, acceptedById, allowlistedCount, setAccepted, acceptAllOfType, rejectAllOfType } = useDetections();
 
   const total = detections.length;
+  const recognizers = getRecognizers();
+  const countries = getRecognizerCountries();
+  const { disabledCountries, setCountryEnabled, defaultPhoneRegion, setDefaultPhoneRegion, addAllowlistEntry, ocrLanguages, setOcrLanguageEnabled } = useSettings();
 
   return (
     <div className="h-full overflow-auto">
       <div className="border-b p-4">
         <div className="text-sm font-medium">Detections</div>
-        <div className="mt-1 text-xs text-muted-foreground">Found {total} items • Threshold {minConfidence}%</div>
+        <div className="mt-1 text-xs text-muted-foreground">
+          Found {total} items • Threshold {minConfidence}%{allowlistedCount > 0 ? ` • ${allowlistedCount} allowlisted` : ""}
+        </div>
         <div className="mt-2 flex items-center gap-2">
           <label className="text-xs">Redact as</label>
           <select
@@ -57,10 +52,62 @@ export default function DetectionPanel({ onFocusDetection, minConfidence, autoMo
             Apply to accepted
           </button>
         </div>
+        <div className="mt-2 flex items-center gap-2">
+          <label className="text-xs">Phone region</label>
+          <select
+            className="h-7 rounded border bg-background px-2 text-xs"
+            value={defaultPhoneRegion}
+            onChange={(e) => setDefaultPhoneRegion(e.target.value)}
+            title="Country assumed for numbers written without a country code"
+          >
+            {getPhoneRegions().map((r) => (
+              <option key={r} value={r}>{regionNames.of(r) ?? r}</option>
+            ))}
+          </select>
+        </div>
+        <details className="mt-2">
+          <summary className="cursor-pointer text-xs text-muted-foreground">
+            OCR languages ({OCR_LANGUAGES.filter((l) => ocrLanguages.includes(l.code)).map((l) => l.label).join(", ")})
+          </summary>
+          <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1" title="Each language is downloaded once; the screenshot is read again when they change">
+            {OCR_LANGUAGES.map((l) => (
+              <label key={l.code} className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  className="h-3 w-3"
+                  checked={ocrLanguages.includes(l.code)}
+                  onChange={(e) => setOcrLanguageEnabled(l.code, e.target.checked)}
+                />
+                {l.label}
+              </label>
+            ))}
+          </div>
+        </details>
+        {countries.length > 0 && (
+          <details className="mt-2">
+            <summary className="cursor-pointer text-xs text-muted-foreground">ID number countries</summary>
+            <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+              {countries.map((c) => (
+                <label key={c} className="flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    className="h-3 w-3"
+                    checked={!disabledCountries.includes(c)}
+                    onChange={(e) => setCountryEnabled(c, e.target.checked)}
+                  />
+                  {regionNames.of(c) ?? c}
+                </label>
+              ))}
+            </div>
+          </details>
+        )}
+        <RulesEditor />
+        <FieldLabelsEditor />
+        <AllowlistEditor />
       </div>
 
       <div className="p-2">
-        {TYPE_ORDER.map((t) => {
+        {recognizers.map(({ id: t, label, badgeClass }) => {
           const list = grouped[t] || [];
           if (list.length === 0) return null;
           // Removed unused variables: acceptedCount, openId
@@ -68,7 +115,7 @@ export default function DetectionPanel({ onFocusDetection, minConfidence, autoMo
             <details key={t} open className="mb-2 rounded border bg-card">
               <summary className="flex cursor-pointer items-center justify-between px-3 py-2">
                 <div className="flex items-center gap-2">
-                  <span className={`inline-flex items-center rounded px-1.5 py-0.5 text-[10px] ${TYPE_BADGE[t]}`}>{TYPE_LABEL[t]}</span>
+                  <span className={`inline-flex items-center rounded px-1.5 py-0.5 text-[10px] ${badgeClass}`}>{label}</span>
                   <span className="text-xs text-muted-foreground">{list.length} items</span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -91,11 +138,26 @@ export default function DetectionPanel({ onFocusDetection, minConfidence, autoMo
                       onClick={() => onFocusDetection?.(d.id)}
                     >
                       <div className="min-w-0">
-                        <div className="truncate text-sm">{d.text}</div>
-                        <div className="text-[10px] text-muted-foreground">{TYPE_LABEL[d.type]}</div>
+                        <div className="truncate text-sm" title={d.text}>{d.text}</div>
+                        <div className="text-[10px] text-muted-foreground">{recognizerLabel(d.type)}{d.detail ? ` · ${d.detail}` : ""}{d.rects ? ` · wraps over ${d.rects.length} lines` : ""}</div>
                       </div>
-                      <span className="rounded bg-secondary px-1.5 py-0.5 text-[10px] text-muted-foreground group-hover:bg-secondary/80">{Math.round(d.confidence)}%</span>
+                      <span
+                        className="rounded bg-secondary px-1.5 py-0.5 text-[10px] text-muted-foreground group-hover:bg-secondary/80"
+                        title={d.breakdown ? formatBreakdown(d.breakdown) : undefined}
+                      >
+                        {Math.round(d.confidence)}%
+                      </span>
                     </button>
+                    {/* An avatar's text only describes its shape; a code's is its decoded payload */}
+                    {d.type !== "avatar" && (
+                      <button
+                        className="mt-0.5 shrink-0 rounded border px-1.5 py-0.5 text-[10px] text-muted-foreground hover:bg-secondary"
+                        onClick={() => addAllowlistEntry(d.text)}
+                        title="Never flag this value again"
+                      >
+                        Always allow
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,47 @@
+"use client";
+
+import React from "react";
+import { useSettings } from "@/store/settings";
+import { BUILTIN_FIELD_LABELS } from "@/lib/fieldLabels";
+
+export default function FieldLabelsEditor() {
+  const { fieldLabels, addFieldLabel, removeFieldLabel } = useSettings();
+  const [label, setLabel] = React.useState("");
+
+  const onAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    addFieldLabel(label);
+    setLabel("");
+  };
+
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs text-muted-foreground">Field labels ({fieldLabels.length})</summary>
+      <div className="mt-1 space-y-1">
+        <div className="text-[10px] text-muted-foreground">
+          Built in: {BUILTIN_FIELD_LABELS.map((l) => l.label).join(", ")}
+        </div>
+        {fieldLabels.map((value) => (
+          <div key={value} className="flex items-center gap-1 text-xs">
+            <span className="min-w-0 flex-1 truncate" title={value}>{value}</span>
+            <button className="rounded border px-1 text-[10px] hover:bg-secondary" onClick={() => removeFieldLabel(value)} aria-label={`Remove ${value}`}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <form className="flex items-center gap-1" onSubmit={onAdd}>
+          <input
+            className="h-7 min-w-0 flex-1 rounded border bg-background px-2 text-xs"
+            placeholder="Member No"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            title="Values to the right of or below this label are redacted"
+          />
+          <button type="submit" className="rounded border px-2 py-1 text-xs hover:bg-secondary">
+            Add
+          </button>
+        </form>
+      </div>
+    </details>
+  );
+}
@@ -6,10 +6,42 @@ import { useDetections } from "@/store/detections";
 import { pipelineBasic, pipelineHighContrast, pipelineForPii } from "@/lib/imagePreprocess";
 // Removed unused imports: luhnOk, ipv4Ok, unionBBoxes
 import DetectionPanel from "@/components/redactor/DetectionPanel";
-import { processOcrForDetections } from "@/lib/enhanced_detection";
+import { processOcrForDetections, type OcrResult } from "@/lib/enhanced_detection";
+import { toRecognizerOptions, useSettings } from "@/store/settings";
+import { getRecognizer } from "@/lib/recognizers";
+import { partitionAllowlisted } from "@/lib/allowlist";
+import type { ConfidenceBreakdown } from "@/lib/confidence";
+import { disposeOcrWorkers, initOcrPool, isCancelled } from "@/lib/ocr/client";
+import { recognizePasses } from "@/lib/ocr/recognize";
+import { scaleOcrResult } from "@/lib/ocr/stitch";
+import type { OcrProgress, OcrStage } from "@/lib/ocr/protocol";
 
 type RedactionTool = "blackout" | "blur" | "pixelate";
 
+// Worker stages, then classifying the OCR into detections on this thread
+type DetectStage = OcrStage | "classifying";
+type DetectProgress = { stage: DetectStage; progress: number };
+
+// Share of the progress bar each stage fills, in order
+const DETECT_STAGES: Array<{ stage: DetectStage; label: string; weight: number }> = [
+  { stage: "loading", label: "Loading OCR", weight: 0.2 },
+  { stage: "recognizing", label: "Recognizing text", weight: 0.6 },
+  { stage: "scanning", label: "Scanning codes and avatars", weight: 0.1 },
+  { stage: "classifying", label: "Classifying", weight: 0.1 },
+];
+
+// Lowest setting of the confidence slider
+const MIN_CONFIDENCE_FLOOR = 40;
+
+function overallProgress({ stage, progress }: DetectProgress): number {
+  let done = 0;
+  for (const s of DETECT_STAGES) {
+    if (s.stage === stage) return done + s.weight * Math.min(1, Math.max(0, progress));
+    done += s.weight;
+  }
+  return done;
+}
+
 type SelectionRect = {
   x: number;
   y: number;
@@ -33,20 +65,47 @@ export default function ManualRedactor() {
   const [minConfidence, setMinConfidence] = React.useState(65);
   const [autoMode, setAutoMode] = React.useState<RedactionTool>("blackout");
   const [autoDetectEnabled, setAutoDetectEnabled] = React.useState(false);
+  // Progress of the running auto-detection, null when idle
+  const [detectProgress, setDetectProgress] = React.useState<DetectProgress | null>(null);
 
   const undoStack = React.useRef<ImageData[]>([]);
   const redoStack = React.useRef<ImageData[]>([]);
   const overlayDivRef = React.useRef<HTMLDivElement | null>(null);
   const { setDetections } = useDetections();
+  const disabledCountries = useSettings((s) => s.disabledCountries);
+  const defaultPhoneRegion = useSettings((s) => s.defaultPhoneRegion);
+  const customRules = useSettings((s) => s.customRules);
+  const allowlist = useSettings((s) => s.allowlist);
+  const fieldLabels = useSettings((s) => s.fieldLabels);
+  const ocrLanguages = useSettings((s) => s.ocrLanguages);
   type Candidate = {
     id: string;
     type: string;
     text: string;
     confidence: number;
     bbox: { x0: number; y0: number; x1: number; y1: number };
+    detail?: string;
+    redactAs?: RedactionTool;
+    breakdown?: ConfidenceBreakdown;
+    // One box per line for matches that wrap; bbox is their union
+    rects?: Array<{ x0: number; y0: number; x1: number; y1: number }>;
   };
   const lastCandidatesRef = React.useRef<Candidate[]>([]);
+  // The slider's value for effects that filter by it without re-running when it moves
+  const minConfidenceRef = React.useRef(minConfidence);
+  // Raw OCR of the last run, so settings changes can re-classify without re-running Tesseract
+  const lastOcrRef = React.useRef<OcrResult | null>(null);
+  // Languages that OCR was read with, so changing them in the panel re-runs it
+  const lastOcrLanguagesRef = React.useRef<string[]>([]);
   const ocrRunningRef = React.useRef(false);
+  // Languages the running auto-detection reads with
+  const runningLanguagesRef = React.useRef<string[]>([]);
+  // Set when the languages changed during a run, which is then aborted and started again
+  const ocrRerunRef = React.useRef(false);
+  // The current runOcrAsync, for the restart from inside an earlier run
+  const runOcrRef = React.useRef<(() => Promise<void>) | null>(null);
+  // Aborts the running auto-detection
+  const ocrAbortRef = React.useRef<AbortController | null>(null);
 
   const get2d = (c: HTMLCanvasElement | null) => c?.getContext("2d") || null;
 
@@ -65,7 +124,7 @@ export default function ManualRedactor() {
   }, []);
 
   // Memoized overlay renderer to avoid re-creation
-  const renderOverlayBoxes = React.useCallback((detections: Array<{ bbox: { x0: number; y0: number; x1: number; y1: number }, type: string, text: string }>) => {
+  const renderOverlayBoxes = React.useCallback((detections: Array<{ bbox: { x0: number; y0: number; x1: number; y1: number }, rects?: Array<{ x0: number; y0: number; x1: number; y1: number }>, type: string, text: string }>) => {
     const overlayDiv = overlayDivRef.current;
     const canvasEl = canvasRef.current;
     if (!(overlayDiv && canvasEl)) return;
@@ -79,19 +138,21 @@ export default function ManualRedactor() {
     const scaleY = (canvasRect.height / canvasEl.height) * zoom;
     const fragment = document.createDocumentFragment();
     detections.forEach((det) => {
-      const d = document.createElement("div");
-      d.style.position = "absolute";
-      d.style.left = `${det.bbox.x0 * scaleX}px`;
-      d.style.top = `${det.bbox.y0 * scaleY}px`;
-      d.style.width = `${(det.bbox.x1 - det.bbox.x0) * scaleX}px`;
-      d.style.height = `${(det.bbox.y1 - det.bbox.y0) * scaleY}px`;
-      d.style.border = "2px solid #22c55e";
-      d.style.background = "rgba(34,197,94,0.1)";
-      d.style.borderRadius = "4px";
-      d.style.pointerEvents = "none";
-      d.style.zIndex = "10";
-      d.title = `${det.type}: ${det.text}`;
-      fragment.appendChild(d);
+      for (const r of det.rects ?? [det.bbox]) {
+        const d = document.createElement("div");
+        d.style.position = "absolute";
+        d.style.left = `${r.x0 * scaleX}px`;
+        d.style.top = `${r.y0 * scaleY}px`;
+        d.style.width = `${(r.x1 - r.x0) * scaleX}px`;
+        d.style.height = `${(r.y1 - r.y0) * scaleY}px`;
+        d.style.border = "2px solid #22c55e";
+        d.style.background = "rgba(34,197,94,0.1)";
+        d.style.borderRadius = "4px";
+        d.style.pointerEvents = "none";
+        d.style.zIndex = "10";
+        d.title = `${det.type}: ${det.text}`;
+        fragment.appendChild(d);
+      }
     });
     overlayDiv.appendChild(fragment);
   }, [zoom, autoDetectEnabled]);
@@ -104,111 +165,60 @@ export default function ManualRedactor() {
     }
     if (ocrRunningRef.current) return;
     ocrRunningRef.current = true;
-    
-    // Show loading state
-    const overlayDiv = overlayDivRef.current;
-    if (overlayDiv) {
-      overlayDiv.innerHTML = '<div style="position: absolute; top: 10px; left: 10px; background: rgba(0,0,0,0.8); color: white; padding: 8px 12px; border-radius: 4px; font-size: 12px; z-index: 20;">Initializing OCR...</div>';
-    }
+    const controller = new AbortController();
+    ocrAbortRef.current = controller;
+    setDetectProgress({ stage: "loading", progress: 0 });
+    const onProgress = (progress: OcrProgress) => setDetectProgress(progress);
     
     try {
       const canvas = canvasRef.current;
-      if (!canvas) return;
-      const pass1 = pipelineBasic(canvas);
-      const pass2 = pipelineHighContrast(canvas);
-      const pass3 = pipelineForPii(canvas); // Add the new PII-specific preprocessing
-      const dataUrl1 = pass1.canvas.toDataURL("image/png");
-      const dataUrl2 = pass2.canvas.toDataURL("image/png");
-      const dataUrl3 = pass3.canvas.toDataURL("image/png"); // New PII-optimized image
-
-      const initWorkerWithRetry = async () => {
-        // Use only the default worker loading approach for better deployment compatibility
-        try {
-          console.log("Initializing OCR worker with default strategy...");
-          const mod = new URL("../../workers/ocrWorker.ts", import.meta.url);
-          const WorkerCtor = new Worker(mod, { type: "module" });
-
-          // Update loading message
-          const overlayDiv = overlayDivRef.current;
-          if (overlayDiv) {
-            overlayDiv.innerHTML = '<div style="position: absolute; top: 10px; left: 10px; background: rgba(0,0,0,0.8); color: white; padding: 8px 12px; border-radius: 4px; font-size: 12px; z-index: 20;">Initializing OCR... (default method)</div>';
-          }
-
-          // Wait for worker to be ready with reasonable timeout
-          await new Promise<void>((resolve, reject) => {
-            const onMessage = (ev: MessageEvent) => {
-              if (ev.data?.type === "ready") {
-                WorkerCtor.removeEventListener("message", onMessage);
-                resolve();
-              }
-            };
-            WorkerCtor.addEventListener("message", onMessage);
-            WorkerCtor.postMessage({ type: "init" });
-            
-            // Reduced timeout for deployment environments
-            setTimeout(() => {
-              WorkerCtor.removeEventListener("message", onMessage);
-              reject(new Error("OCR initialization timeout - network conditions may be affecting loading"));
-            }, 45000); // 45 seconds instead of 150
-          });
-
-          return WorkerCtor;
-        } catch (error: unknown) {
-          console.error("OCR worker initialization failed:", error);
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          throw new Error(`OCR initialization failed: ${errorMessage}. Please try manual redaction or refresh the page.`);
-        }
-      };
-
-      const WorkerCtor = await initWorkerWithRetry();
-
-      const runOnce = (payloadUrl: string) => new Promise<{ ocr: { width: number; height: number; scaleX: number; scaleY: number; lines: Array<{ words: Array<{ text: string; conf: number; bbox: { x: number; y: number; w: number; h: number } }>; joined: string; spans: { start: number; end: number; wordIdx: number }[]; meanCharWidth: number }> } }>((resolve, reject) => {
-        const onMessage = (ev: MessageEvent) => {
-          if (ev.data?.type === "result") {
-            WorkerCtor.removeEventListener("message", onMessage);
-            resolve(ev.data.payload);
-          } else if (ev.data?.type === "error") {
-            WorkerCtor.removeEventListener("message", onMessage);
-            reject(new Error(ev.data.payload.message));
-          }
-        };
-        WorkerCtor.addEventListener("message", onMessage);
-        WorkerCtor.postMessage({ type: "run", payload: { imageBitmapDataURL: payloadUrl } });
-      });
-
-      // Try all three preprocessing approaches
-      let payload = await runOnce(dataUrl1);
-      if (!payload || payload.ocr.lines.length < 1) {
-        payload = await runOnce(dataUrl2);
-      }
-      // Try the PII-optimized preprocessing as a last resort
-      if (!payload || payload.ocr.lines.length < 1) {
-        payload = await runOnce(dataUrl3);
-      }
-
-      const detectionsMapped = processOcrForDetections(payload.ocr, minConfidence);
+      const img = imageRef.current;
+      if (!canvas || !img) return;
+      const languages = useSettings.getState().ocrLanguages;
+      runningLanguagesRef.current = languages;
+      // Read the original image rather than the display-sized canvas, so small text keeps its pixels
+      const source = document.createElement("canvas");
+      source.width = img.naturalWidth;
+      source.height = img.naturalHeight;
+      source.getContext("2d")?.drawImage(img, 0, 0);
+      const pass1 = pipelineBasic(source);
+      const pass2 = pipelineHighContrast(source);
+      const pass3 = pipelineForPii(source); // Add the new PII-specific preprocessing
+
+      await initOcrPool(languages, { signal: controller.signal, timeoutMs: 45000, onProgress });
+      // All three passes are read and fused, so a token any of them reads correctly is caught
+      const fused = await recognizePasses([pass1.canvas, pass2.canvas, pass3.canvas], languages, { signal: controller.signal, timeoutMs: 120000, onProgress });
+      // Detections are drawn on the canvas, so results are mapped from the preprocessed image onto it
+      const ocr = scaleOcrResult(fused, canvas.width / pass1.canvas.width, canvas.height / pass1.canvas.height);
+
+      // Let the bar show the last stage before classification blocks this thread
+      setDetectProgress({ stage: "classifying", progress: 0 });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      // A cancel from here on still leaves the previous results in place
+      if (controller.signal.aborted) return;
+
+      lastOcrRef.current = ocr;
+      lastOcrLanguagesRef.current = languages;
+      // Kept down to the slider's floor, so lowering it later still finds them
+      const detectionsMapped = processOcrForDetections(ocr, MIN_CONFIDENCE_FLOOR, toRecognizerOptions(useSettings.getState()));
       const candidates = detectionsMapped.map(d => ({
         id: d.id,
         type: d.type,
         text: d.text,
         confidence: d.confidence,
         bbox: { x0: d.bbox.x0, y0: d.bbox.y0, x1: d.bbox.x1, y1: d.bbox.y1 },
+        detail: d.detail,
+        redactAs: d.redactAs,
+        breakdown: d.breakdown,
+        rects: d.rects,
       }));
       lastCandidatesRef.current = candidates;
-      setDetections(detectionsMapped);
-      renderOverlayBoxes(detectionsMapped);
-
-      // Cleanup worker and free memory
-      try {
-        WorkerCtor.terminate();
-        // Force garbage collection if available (mainly for development)
-        if (typeof window !== 'undefined' && 'gc' in window) {
-          (window as typeof window & { gc: () => void }).gc();
-        }
-      } catch (cleanupError) {
-        console.warn("Worker cleanup failed:", cleanupError);
-      }
+      const { visible, allowlisted } = filterDetections(candidates, canvas, minConfidenceRef.current);
+      setDetections(visible, allowlisted.length, true);
+      renderOverlayBoxes(visible);
     } catch (err) {
+      // Cancelled by the user: the previous detections stay as they were
+      if (isCancelled(err)) return;
       console.warn("OCR error:", err);
       
       // Show error message to user and disable auto-detect
@@ -221,8 +231,18 @@ export default function ManualRedactor() {
       setAutoDetectEnabled(false);
     } finally {
       ocrRunningRef.current = false;
+      ocrAbortRef.current = null;
+      setDetectProgress(null);
+      if (ocrRerunRef.current) {
+        ocrRerunRef.current = false;
+        runOcrRef.current?.();
+      }
     }
-  }, [setDetections, minConfidence, autoDetectEnabled, renderOverlayBoxes]);
+  }, [setDetections, autoDetectEnabled, renderOverlayBoxes]);
+
+  React.useEffect(() => {
+    runOcrRef.current = runOcrAsync;
+  }, [runOcrAsync]);
 
   // Initialize canvas with image
   const initializeCanvasWithImage = React.useCallback((img: HTMLImageElement) => {
@@ -260,6 +280,17 @@ export default function ManualRedactor() {
     octx?.clearRect(0, 0, overlay.width, overlay.height);
   }, [pushUndoSnapshot]);
 
+  React.useEffect(() => {
+    useSettings.persist.rehydrate();
+  }, []);
+
+  // The OCR workers keep Tesseract loaded between runs; free them when leaving the editor
+  React.useEffect(() => () => {
+    ocrRerunRef.current = false;
+    ocrAbortRef.current?.abort();
+    disposeOcrWorkers();
+  }, []);
+
   // Load image and optionally run OCR
   React.useEffect(() => {
     const dataUrl = sessionStorage.getItem("sr:imageDataURL");
@@ -383,17 +414,45 @@ export default function ManualRedactor() {
     // Re-filter current candidates when slider changes
     const canvasEl = canvasRef.current;
     if (!canvasEl) return;
-    const filtered = filterDetections(lastCandidatesRef.current, canvasEl, minConfidence);
-    setDetections(filtered);
-    renderOverlayBoxes(filtered);
-  }, [minConfidence, zoom, setDetections, renderOverlayBoxes]);
+    const { visible, allowlisted } = filterDetections(lastCandidatesRef.current, canvasEl, minConfidence);
+    setDetections(visible, allowlisted.length);
+    renderOverlayBoxes(visible);
+  }, [minConfidence, zoom, allowlist, setDetections, renderOverlayBoxes]);
+
+  React.useEffect(() => {
+    minConfidenceRef.current = minConfidence;
+  }, [minConfidence]);
+
+  // Re-classify the cached OCR when recognizer settings change. Candidates are kept
+  // down to the slider's floor and filtered here, so moving the slider doesn't re-classify.
+  React.useEffect(() => {
+    const canvasEl = canvasRef.current;
+    const ocr = lastOcrRef.current;
+    if (!canvasEl || !ocr) return;
+    lastCandidatesRef.current = processOcrForDetections(ocr, MIN_CONFIDENCE_FLOOR, toRecognizerOptions({ disabledCountries, defaultPhoneRegion, customRules, fieldLabels }));
+    const { visible, allowlisted } = filterDetections(lastCandidatesRef.current, canvasEl, minConfidenceRef.current);
+    setDetections(visible, allowlisted.length);
+    renderOverlayBoxes(visible);
+  }, [disabledCountries, defaultPhoneRegion, customRules, fieldLabels, setDetections, renderOverlayBoxes]);
+
+  // Re-read the screenshot with the newly selected OCR languages
+  React.useEffect(() => {
+    const readWith = ocrRunningRef.current ? runningLanguagesRef.current : lastOcrRef.current ? lastOcrLanguagesRef.current : null;
+    if (!readWith || ocrLanguages.join("+") === readWith.join("+")) return;
+    // A run in progress would finish with the old languages
+    if (ocrRunningRef.current) {
+      ocrRerunRef.current = true;
+      ocrAbortRef.current?.abort();
+      return;
+    }
+    runOcrAsync();
+  }, [ocrLanguages, runOcrAsync]);
 
   // Ensure overlay scales when zoom changes
   React.useEffect(() => {
     const canvasEl = canvasRef.current;
     if (!canvasEl) return;
-    const filtered = filterDetections(lastCandidatesRef.current, canvasEl, minConfidence);
-    renderOverlayBoxes(filtered);
+    renderOverlayBoxes(filterDetections(lastCandidatesRef.current, canvasEl, minConfidence).visible);
   }, [zoom, minConfidence, renderOverlayBoxes]);
 
   // React to auto-detect toggle: clear overlays when disabled; when enabled, re-render or run OCR
@@ -404,21 +463,20 @@ export default function ManualRedactor() {
       if (overlayDivRef.current) overlayDivRef.current.innerHTML = "";
       return;
     }
-    const filtered = filterDetections(lastCandidatesRef.current, canvasEl, minConfidence);
-    renderOverlayBoxes(filtered);
+    renderOverlayBoxes(filterDetections(lastCandidatesRef.current, canvasEl, minConfidenceRef.current).visible);
     if (lastCandidatesRef.current.length === 0) {
       runOcrAsync();
     }
-  }, [autoDetectEnabled, minConfidence, runOcrAsync, renderOverlayBoxes]);
-
-  function filterDetections(
-    items: Array<{
-      id: string;
-      type: string;
-      text: string;
-      confidence: number;
-      bbox: { x0: number; y0: number; x1: number; y1: number };
-    }>,
+  }, [autoDetectEnabled, runOcrAsync, renderOverlayBoxes]);
+
+  function filterDetections<T extends {
+    id: string;
+    type: string;
+    text: string;
+    confidence: number;
+    bbox: { x0: number; y0: number; x1: number; y1: number };
+  }>(
+    items: T[],
     canvasEl: HTMLCanvasElement,
     threshold: number
   ) {
@@ -431,27 +489,9 @@ export default function ManualRedactor() {
 
     const withinUi = (b: { y0: number; y1: number }) => b.y1 < ignoreTopPx;
 
-    const lengthOk = (type: string, text: string) => {
-      const t = text.trim();
-      switch (type) {
-        case "email":
-          return t.length >= 6 && t.length <= 254;
-        case "url":
-          return t.length >= 8 && t.length <= 2083;
-        case "ipv4":
-          return t.length >= 7 && t.length <= 15;
-        case "phone":
-          return t.replace(/\D/g, "").length >= 7 && t.replace(/\D/g, "").length <= 15;
-        case "credit_card":
-          return t.replace(/\D/g, "").length >= 13 && t.replace(/\D/g, "").length <= 19;
-        case "name":
-          return t.length >= 3 && t.length <= 64;
-        default:
-          return true;
-      }
-    };
+    const lengthOk = (type: string, text: string) => getRecognizer(type)?.lengthOk?.(text) ?? true;
 
-    return items.filter((d) => {
+    const shown = items.filter((d) => {
       if (d.confidence < minConfidence) return false;
       if (!lengthOk(d.type, d.text)) return false;
       if (withinUi(d.bbox)) return false;
@@ -461,6 +501,8 @@ export default function ManualRedactor() {
       if (w > width * 0.9 && h < height * 0.02) return false;
       return true;
     });
+    // Allowlisted values are hidden but still counted in the panel
+    return partitionAllowlisted(shown, useSettings.getState().allowlist);
   }
 
   const applyEffect = (rect: SelectionRect, toolToApply: RedactionTool) => {
@@ -674,30 +716,32 @@ export default function ManualRedactor() {
               const canvasEl = canvasRef.current;
               const ctx = get2d(canvasEl);
               if (!(canvasEl && ctx)) return;
-              const items = lastCandidatesRef.current;
+              // What the panel lists, so nothing it hides is redacted
+              const items = filterDetections(lastCandidatesRef.current, canvasEl, minConfidenceRef.current).visible;
               // Apply to accepted only
               const { acceptedById } = useDetections.getState();
               pushUndoSnapshot();
               for (const det of items) {
                 if (!acceptedById[det.id]) continue;
-                const r = det.bbox;
-                switch (autoMode) {
-                  case "blackout":
-                    ctx.save();
-                    ctx.fillStyle = "#000";
-                    ctx.fillRect(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
-                    ctx.restore();
-                    break;
-                  case "blur": {
-                    const imageData = ctx.getImageData(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
-                    let blurred = imageData;
-                    for (let i = 0; i < 2; i++) blurred = boxBlur(blurred, 10);
-                    ctx.putImageData(blurred, r.x0, r.y0);
-                    break;
+                for (const r of det.rects ?? [det.bbox]) {
+                  switch (det.redactAs ?? autoMode) {
+                    case "blackout":
+                      ctx.save();
+                      ctx.fillStyle = "#000";
+                      ctx.fillRect(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
+                      ctx.restore();
+                      break;
+                    case "blur": {
+                      const imageData = ctx.getImageData(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
+                      let blurred = imageData;
+                      for (let i = 0; i < 2; i++) blurred = boxBlur(blurred, 10);
+                      ctx.putImageData(blurred, r.x0, r.y0);
+                      break;
+                    }
+                    case "pixelate":
+                      pixelate(ctx, r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0, 10);
+                      break;
                   }
-                  case "pixelate":
-                    pixelate(ctx, r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0, 10);
-                    break;
                 }
               }
             }}
@@ -705,29 +749,30 @@ export default function ManualRedactor() {
               const canvasEl = canvasRef.current;
               const ctx = get2d(canvasEl);
               if (!(canvasEl && ctx)) return;
-              const items = lastCandidatesRef.current.filter((d) => d.type === type);
+              const items = filterDetections(lastCandidatesRef.current, canvasEl, minConfidenceRef.current).visible.filter((d) => d.type === type);
               // Mark all of type accepted first
               useDetections.getState().acceptAllOfType(type);
               pushUndoSnapshot();
               for (const det of items) {
-                const r = det.bbox;
-                switch (autoMode) {
-                  case "blackout":
-                    ctx.save();
-                    ctx.fillStyle = "#000";
-                    ctx.fillRect(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
-                    ctx.restore();
-                    break;
-                  case "blur": {
-                    const imageData = ctx.getImageData(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
-                    let blurred = imageData;
-                    for (let i = 0; i < 2; i++) blurred = boxBlur(blurred, 10);
-                    ctx.putImageData(blurred, r.x0, r.y0);
-                    break;
+                for (const r of det.rects ?? [det.bbox]) {
+                  switch (det.redactAs ?? autoMode) {
+                    case "blackout":
+                      ctx.save();
+                      ctx.fillStyle = "#000";
+                      ctx.fillRect(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
+                      ctx.restore();
+                      break;
+                    case "blur": {
+                      const imageData = ctx.getImageData(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0);
+                      let blurred = imageData;
+                      for (let i = 0; i < 2; i++) blurred = boxBlur(blurred, 10);
+                      ctx.putImageData(blurred, r.x0, r.y0);
+                      break;
+                    }
+                    case "pixelate":
+                      pixelate(ctx, r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0, 10);
+                      break;
                   }
-                  case "pixelate":
-                    pixelate(ctx, r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0, 10);
-                    break;
                 }
               }
             }}
@@ -787,7 +832,7 @@ export default function ManualRedactor() {
                 <label className="text-xs text-muted-foreground">Min conf</label>
                 <input
                   type="range"
-                  min={40}
+                  min={MIN_CONFIDENCE_FLOOR}
                   max={95}
                   step={1}
                   value={minConfidence}
@@ -814,6 +859,22 @@ export default function ManualRedactor() {
               />
               <div ref={overlayDivRef} className="pointer-events-none absolute left-0 top-0" />
             </div>
+            {detectProgress && (
+              <div className="absolute left-3 top-3 z-20 flex w-64 items-center gap-2 rounded bg-black/80 px-3 py-2 text-xs text-white" role="status">
+                <div className="min-w-0 flex-1">
+                  <div className="flex justify-between">
+                    <span className="truncate">{DETECT_STAGES.find((s) => s.stage === detectProgress.stage)?.label}…</span>
+                    <span>{Math.round(overallProgress(detectProgress) * 100)}%</span>
+                  </div>
+                  <div className="mt-1 h-1.5 overflow-hidden rounded bg-white/20">
+                    <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${overallProgress(detectProgress) * 100}%` }} />
+                  </div>
+                </div>
+                <button className="shrink-0 rounded border border-white/40 px-2 py-0.5 hover:bg-white/10" onClick={() => ocrAbortRef.current?.abort()}>
+                  Cancel
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Bottom toolbar */}
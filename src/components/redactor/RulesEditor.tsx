@@ -0,0 +1,102 @@
+"use client";
+
+import React from "react";
+import { useSettings } from "@/store/settings";
+import { validateRulePattern, type CustomRule, type RedactionMode } from "@/lib/customRules";
+
+const MODE_LABEL: Record<RedactionMode, string> = {
+  blackout: "Black Bar",
+  blur: "Blur",
+  pixelate: "Pixelate",
+};
+
+export default function RulesEditor() {
+  const { customRules, addCustomRule, updateCustomRule, removeCustomRule } = useSettings();
+  const [kind, setKind] = React.useState<CustomRule["kind"]>("term");
+  const [pattern, setPattern] = React.useState("");
+  const [label, setLabel] = React.useState("");
+  const [mode, setMode] = React.useState<RedactionMode>("blackout");
+  const [error, setError] = React.useState<string | null>(null);
+
+  const onAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateRulePattern(kind, pattern);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    addCustomRule({ kind, pattern: pattern.trim(), label: label.trim() || pattern.trim(), mode });
+    setPattern("");
+    setLabel("");
+    setError(null);
+  };
+
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-xs text-muted-foreground">Custom rules ({customRules.length})</summary>
+      <div className="mt-1 space-y-1">
+        {customRules.map((r) => (
+          <div key={r.id} className="flex items-center gap-1 text-xs">
+            <input
+              type="checkbox"
+              className="h-3 w-3"
+              checked={r.enabled}
+              onChange={(e) => updateCustomRule(r.id, { enabled: e.target.checked })}
+            />
+            <span className="min-w-0 flex-1 truncate" title={r.pattern}>
+              {r.label} <span className="text-muted-foreground">{r.kind === "regex" ? `/${r.pattern}/` : `"${r.pattern}"`}</span>
+            </span>
+            <select
+              className="h-6 rounded border bg-background px-1 text-[10px]"
+              value={r.mode}
+              onChange={(e) => updateCustomRule(r.id, { mode: e.target.value as RedactionMode })}
+            >
+              {Object.entries(MODE_LABEL).map(([m, l]) => (
+                <option key={m} value={m}>{l}</option>
+              ))}
+            </select>
+            <button className="rounded border px-1 text-[10px] hover:bg-secondary" onClick={() => removeCustomRule(r.id)} aria-label={`Remove ${r.label}`}>
+              ✕
+            </button>
+          </div>
+        ))}
+
+        <form className="flex flex-wrap items-center gap-1" onSubmit={onAdd}>
+          <select
+            className="h-7 rounded border bg-background px-1 text-xs"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as CustomRule["kind"])}
+          >
+            <option value="term">Term</option>
+            <option value="regex">Regex</option>
+          </select>
+          <input
+            className="h-7 min-w-0 flex-1 rounded border bg-background px-2 text-xs"
+            placeholder={kind === "regex" ? "ACME-\\d+" : "Project Falcon"}
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+          />
+          <input
+            className="h-7 w-24 rounded border bg-background px-2 text-xs"
+            placeholder="Label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <select
+            className="h-7 rounded border bg-background px-1 text-xs"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as RedactionMode)}
+          >
+            {Object.entries(MODE_LABEL).map(([m, l]) => (
+              <option key={m} value={m}>{l}</option>
+            ))}
+          </select>
+          <button type="submit" className="rounded border px-2 py-1 text-xs hover:bg-secondary">
+            Add
+          </button>
+        </form>
+        {error && <div className="text-[10px] text-red-500">{error}</div>}
+      </div>
+    </details>
+  );
+}
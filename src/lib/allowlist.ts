@@ -0,0 +1,50 @@
+// Never-redact allowlist: exact values ("support@ourcompany.com") or globs
+// ("*@ourcompany.com", "https://docs.ourcompany.com/*"), checked after detection.
+
+const GLOB_CHARS = /[*?]/;
+
+// Case, spacing and URL scheme vary between OCR runs of the same value
+function normalize(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "");
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, "");
+const looksLikePhone = (value: string) => /^[\d\s+().\-]+$/.test(value.trim()) && digitsOf(value).length >= 7;
+
+function globToRegExp(glob: string): RegExp {
+  const source = normalize(glob)
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\/]/g, "\\$&")))
+    .join("")
+    // "docs.example.com/*" should also cover the bare host
+    .replace(/\\\/\.\*$/, "(?:/.*)?");
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesAllowlistEntry(value: string, entry: string): boolean {
+  if (!entry.trim()) return false;
+  if (GLOB_CHARS.test(entry)) return globToRegExp(entry).test(normalize(value));
+  // Phone numbers come back formatted differently each time; compare digits, ignoring a country code
+  if (looksLikePhone(entry) && looksLikePhone(value)) {
+    const a = digitsOf(entry);
+    const b = digitsOf(value);
+    return a === b || (Math.min(a.length, b.length) >= 10 && (a.endsWith(b) || b.endsWith(a)));
+  }
+  return normalize(value) === normalize(entry);
+}
+
+export function isAllowlisted(value: string, entries: string[]): boolean {
+  return entries.some((entry) => matchesAllowlistEntry(value, entry));
+}
+
+export function partitionAllowlisted<T extends { text: string }>(items: T[], entries: string[]): { visible: T[]; allowlisted: T[] } {
+  const visible: T[] = [];
+  const allowlisted: T[] = [];
+  for (const item of items) (isAllowlisted(item.text, entries) ? allowlisted : visible).push(item);
+  return { visible, allowlisted };
+}
@@ -0,0 +1,232 @@
+import { toLuminance } from "@/lib/codes/binarize";
+
+// Avatar finder for chat and social screenshots. No model: the page background
+// is split into flat regions, everything standing out from them becomes a
+// blob, and blobs shaped like a disc or rounded square, sized like an avatar
+// and sitting beside a text line are kept. Avatars repeat down one side of a
+// conversation, so a column of them is what makes a blob convincing.
+
+type Box = { x0: number; y0: number; x1: number; y1: number };
+
+export type AvatarRegion = {
+  bbox: Box;
+  shape: "circle" | "rounded";
+  // How closely the outline follows that shape, 0-1
+  roundness: number;
+  // Part of a column of similar avatars
+  repeated: boolean;
+};
+
+// Neighbouring pixels this close in luminance belong to the same flat region
+const FLAT_STEP = 3;
+// Avatar diameter relative to the median text line height
+const MIN_SIZE = 1.2;
+const MAX_SIZE = 6;
+const MIN_ROUNDNESS = 0.88;
+
+export function findAvatars(image: { data: Uint8ClampedArray; width: number; height: number }, lineBoxes: Box[]): AvatarRegion[] {
+  if (lineBoxes.length === 0) return [];
+  const lineHeight = median(lineBoxes.map((b) => b.y1 - b.y0));
+  // Avatars are at least a text line tall, so half resolution loses nothing on large screenshots
+  const factor = image.width > 1000 ? 2 : 1;
+  const { lum, width, height } = downsample(toLuminance(image.data, image.width, image.height), image.width, image.height, factor);
+
+  const background = backgroundMask(lum, width, height);
+  const blobs = findBlobs(background, width, height);
+
+  const minSize = (lineHeight * MIN_SIZE) / factor;
+  const maxSize = (lineHeight * MAX_SIZE) / factor;
+  const candidates: AvatarRegion[] = [];
+  for (const blob of blobs) {
+    const w = blob.x1 - blob.x0;
+    const h = blob.y1 - blob.y0;
+    if (w < minSize || h < minSize || w > maxSize || h > maxSize) continue;
+    if (w / h > 1.18 || h / w > 1.18) continue;
+    const shape = classifyShape(blob, width);
+    if (!shape) continue;
+    const bbox = { x0: blob.x0 * factor, y0: blob.y0 * factor, x1: blob.x1 * factor, y1: blob.y1 * factor };
+    if (!besideText(bbox, lineBoxes)) continue;
+    candidates.push({ bbox, ...shape, repeated: false });
+  }
+
+  // Similar size and a shared column: the avatars of one side of a conversation
+  for (const a of candidates) {
+    const size = a.bbox.x1 - a.bbox.x0;
+    const centre = (a.bbox.x0 + a.bbox.x1) / 2;
+    a.repeated = candidates.some((b) => {
+      if (b === a) return false;
+      const otherSize = b.bbox.x1 - b.bbox.x0;
+      return Math.abs(otherSize - size) <= size * 0.2 && Math.abs((b.bbox.x0 + b.bbox.x1) / 2 - centre) <= size / 3;
+    });
+  }
+  return candidates;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function downsample(lum: Uint8Array, width: number, height: number, factor: number): { lum: Uint8Array; width: number; height: number } {
+  if (factor === 1) return { lum, width, height };
+  const w = Math.floor(width / factor);
+  const h = Math.floor(height / factor);
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) sum += lum[(y * factor + dy) * width + x * factor + dx];
+      }
+      out[y * w + x] = Math.round(sum / (factor * factor));
+    }
+  }
+  return { lum: out, width: w, height: h };
+}
+
+// Flat regions spanning a good part of the page (window, panels, wide bubbles) are background
+function backgroundMask(lum: Uint8Array, width: number, height: number): Uint8Array {
+  const parent = new Int32Array(width * height);
+  for (let i = 0; i < parent.length; i++) parent[i] = i;
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x + 1 < width && Math.abs(lum[i] - lum[i + 1]) <= FLAT_STEP) union(i, i + 1);
+      if (y + 1 < height && Math.abs(lum[i] - lum[i + width]) <= FLAT_STEP) union(i, i + width);
+    }
+  }
+
+  const extent = new Map<number, Box>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const root = find(y * width + x);
+      const box = extent.get(root);
+      if (!box) extent.set(root, { x0: x, y0: y, x1: x + 1, y1: y + 1 });
+      else {
+        if (x < box.x0) box.x0 = x;
+        if (x + 1 > box.x1) box.x1 = x + 1;
+        box.y1 = y + 1;
+      }
+    }
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    const box = extent.get(find(i))!;
+    if (box.x1 - box.x0 >= width * 0.25 || box.y1 - box.y0 >= height * 0.25) mask[i] = 1;
+  }
+  return mask;
+}
+
+type Blob = Box & { label: number; area: number; labels: Int32Array };
+
+// 8-connected groups of non-background pixels
+function findBlobs(background: Uint8Array, width: number, height: number): Blob[] {
+  const labels = new Int32Array(width * height);
+  const blobs: Blob[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < labels.length; start++) {
+    if (background[start] || labels[start]) continue;
+    const label = blobs.length + 1;
+    const blob: Blob = { label, area: 0, labels, x0: width, y0: height, x1: 0, y1: 0 };
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      blob.area++;
+      if (x < blob.x0) blob.x0 = x;
+      if (y < blob.y0) blob.y0 = y;
+      if (x + 1 > blob.x1) blob.x1 = x + 1;
+      if (y + 1 > blob.y1) blob.y1 = y + 1;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const j = ny * width + nx;
+          if (background[j] || labels[j]) continue;
+          labels[j] = label;
+          stack.push(j);
+        }
+      }
+    }
+    blobs.push(blob);
+  }
+  return blobs;
+}
+
+// Overlap of the blob with the disc, and with a rounded square, inscribed in its box
+function classifyShape(blob: Blob, width: number): Pick<AvatarRegion, "shape" | "roundness"> | null {
+  const w = blob.x1 - blob.x0;
+  const h = blob.y1 - blob.y0;
+  const cx = (blob.x0 + blob.x1) / 2;
+  const cy = (blob.y0 + blob.y1) / 2;
+  const rx = w / 2;
+  const ry = h / 2;
+  // Corner radius of a typical rounded-square avatar, a fifth of the side
+  const corner = Math.min(w, h) * 0.2;
+
+  let inBlob = 0;
+  let disc = 0;
+  let discHit = 0;
+  let rounded = 0;
+  let roundedHit = 0;
+  let cornerArea = 0;
+  let cornerOn = 0;
+  for (let y = blob.y0; y < blob.y1; y++) {
+    for (let x = blob.x0; x < blob.x1; x++) {
+      const on = blob.labels[y * width + x] === blob.label;
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const inDisc = ((px - cx) / rx) ** 2 + ((py - cy) / ry) ** 2 <= 1;
+      const dx = Math.max(0, Math.abs(px - cx) - (rx - corner));
+      const dy = Math.max(0, Math.abs(py - cy) - (ry - corner));
+      const inRounded = dx * dx + dy * dy <= corner * corner;
+      if (on) inBlob++;
+      if (inDisc) disc++;
+      if (inDisc && on) discHit++;
+      if (inRounded) rounded++;
+      if (inRounded && on) roundedHit++;
+      // The triangle cut off each corner of the box, which a rounded corner leaves empty
+      const edgeX = Math.min(px - blob.x0, blob.x1 - px);
+      const edgeY = Math.min(py - blob.y0, blob.y1 - py);
+      if (edgeX + edgeY < Math.max(2, corner * 0.6)) {
+        cornerArea++;
+        if (on) cornerOn++;
+      }
+    }
+  }
+  const discIoU = discHit / (disc + inBlob - discHit);
+  const roundedIoU = roundedHit / (rounded + inBlob - roundedHit);
+  if (discIoU >= MIN_ROUNDNESS && discIoU >= roundedIoU) return { shape: "circle", roundness: discIoU };
+  // A plain square (a photo thumbnail, an icon tile) fits the rounded square too; its corners give it away
+  if (roundedIoU >= MIN_ROUNDNESS && cornerOn <= cornerArea / 2) return { shape: "rounded", roundness: roundedIoU };
+  return null;
+}
+
+// Level with a text line and just to its left or right
+function besideText(box: Box, lines: Box[]): boolean {
+  const size = box.x1 - box.x0;
+  return lines.some((line) => {
+    // Avatars line up with the first or last line of a message, within a line or so
+    const vertical = line.y1 > box.y0 - size * 0.5 && line.y0 < box.y1 + size * 0.5;
+    if (!vertical) return false;
+    const gapRight = line.x0 - box.x1;
+    const gapLeft = box.x0 - line.x1;
+    return (gapRight >= -size * 0.1 && gapRight <= size * 3) || (gapLeft >= -size * 0.1 && gapLeft <= size * 3);
+  });
+}
@@ -0,0 +1,78 @@
+// Luminance and black/white conversion for the code scanners. Screenshots put
+// codes on white cards, dark panels and gradients alike, so the threshold is
+// taken from a window around each pixel rather than one value for the image.
+
+export type Bitmap = {
+  width: number;
+  height: number;
+  // 1 = dark module or bar, 0 = light
+  bits: Uint8Array;
+};
+
+const BLOCK = 8;
+const MIN_CONTRAST = 40;
+
+export function toLuminance(rgba: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const lum = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < lum.length; i++, p += 4) {
+    // Transparent pixels count as white, the background they are shown on
+    const a = rgba[p + 3] / 255;
+    const y = 0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2];
+    lum[i] = Math.round(y * a + 255 * (1 - a));
+  }
+  return lum;
+}
+
+// A pixel is dark when it is below the midpoint of the darkest and lightest
+// pixels around it. The midpoint (rather than the mean) keeps anti-aliased
+// module edges on the side they mostly belong to, and the window has to be
+// wider than a QR finder's 3×3-module centre or large codes come out hollow.
+export function binarize(lum: Uint8Array, width: number, height: number, invert = false): Bitmap {
+  const cols = Math.ceil(width / BLOCK);
+  const rows = Math.ceil(height / BLOCK);
+  const blockMin = new Uint8Array(cols * rows).fill(255);
+  const blockMax = new Uint8Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const b = Math.floor(y / BLOCK) * cols + Math.floor(x / BLOCK);
+      const v = lum[y * width + x];
+      if (v < blockMin[b]) blockMin[b] = v;
+      if (v > blockMax[b]) blockMax[b] = v;
+    }
+  }
+
+  const reach = Math.max(2, Math.round(Math.min(width, height) / 16 / BLOCK));
+  const low = spread(spread(blockMin, cols, rows, reach, Math.min, true), cols, rows, reach, Math.min, false);
+  const high = spread(spread(blockMax, cols, rows, reach, Math.max, true), cols, rows, reach, Math.max, false);
+
+  const bits = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const b = Math.floor(y / BLOCK) * cols + Math.floor(x / BLOCK);
+      // A flat area is all background, whatever its colour
+      if (high[b] - low[b] < MIN_CONTRAST) continue;
+      const mid = (high[b] + low[b]) / 2;
+      const v = lum[y * width + x];
+      bits[y * width + x] = (invert ? v > mid : v < mid) ? 1 : 0;
+    }
+  }
+  return { width, height, bits };
+}
+
+// Min or max over a run of blocks along one axis
+function spread(src: Uint8Array, cols: number, rows: number, reach: number, pick: (a: number, b: number) => number, horizontal: boolean): Uint8Array {
+  const out = new Uint8Array(src.length);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let v = src[r * cols + c];
+      for (let d = -reach; d <= reach; d++) {
+        const rr = horizontal ? r : r + d;
+        const cc = horizontal ? c + d : c;
+        if (rr < 0 || cc < 0 || rr >= rows || cc >= cols) continue;
+        v = pick(v, src[rr * cols + cc]);
+      }
+      out[r * cols + c] = v;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,45 @@
+import { binarize, toLuminance } from "@/lib/codes/binarize";
+import { findBarcodes, type LinearFormat } from "@/lib/codes/linear";
+import { findQrCodes } from "@/lib/codes/qr";
+
+// Public entry point for the QR and barcode scanners. Runs in the OCR worker on
+// the same image Tesseract reads; boxes are in that image's pixels.
+
+export type CodeFormat = "QR" | LinearFormat;
+
+export type ScannedCode = {
+  kind: "qr_code" | "barcode";
+  format: CodeFormat;
+  // Decoded payload, e.g. a URL, "WIFI:S:…;P:…;;" or the digits of an EAN
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+};
+
+export function scanCodes(image: { data: Uint8ClampedArray; width: number; height: number }): ScannedCode[] {
+  const { width, height } = image;
+  const lum = toLuminance(image.data, width, height);
+  const found: ScannedCode[] = [];
+
+  // Dark on light first; light-on-dark codes (dark mode apps) on the inverted image
+  for (const invert of [false, true]) {
+    const bitmap = binarize(lum, width, height, invert);
+    for (const qr of findQrCodes(bitmap)) {
+      const xs = qr.corners.map((p) => p.x);
+      const ys = qr.corners.map((p) => p.y);
+      const bbox = { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+      found.push({ kind: "qr_code", format: "QR", text: qr.text, bbox: clip(bbox, width, height) });
+    }
+    for (const bar of findBarcodes(bitmap)) {
+      found.push({ kind: "barcode", format: bar.format, text: bar.text, bbox: bar.bbox });
+    }
+  }
+
+  // A code can read in both polarities when it sits on a mid-grey background
+  return found.filter((code, i) => !found.slice(0, i).some((other) => other.text === code.text && overlaps(other.bbox, code.bbox)));
+}
+
+function clip(b: ScannedCode["bbox"], width: number, height: number): ScannedCode["bbox"] {
+  return { x0: Math.max(0, b.x0), y0: Math.max(0, b.y0), x1: Math.min(width, b.x1), y1: Math.min(height, b.y1) };
+}
+
+const overlaps = (a: ScannedCode["bbox"], b: ScannedCode["bbox"]) => a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1;
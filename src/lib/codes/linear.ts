@@ -0,0 +1,297 @@
+import type { Bitmap } from "@/lib/codes/binarize";
+
+// 1D barcode reader: EAN-13 / UPC-A, EAN-8, Code 128 and Code 39 read along
+// pixel rows. A barcode is only reported when several rows decode to the same
+// value, which keeps runs of text and table rules from reading as bars.
+
+export type LinearFormat = "EAN-13" | "UPC-A" | "EAN-8" | "Code 128" | "Code 39";
+
+export type LinearCode = {
+  format: LinearFormat;
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+};
+
+type RowHit = { format: LinearFormat; text: string; x0: number; x1: number; y: number };
+
+// Rows that must agree before a read is trusted; Code 39 has no mandatory checksum
+const MIN_ROWS: Record<LinearFormat, number> = { "EAN-13": 3, "UPC-A": 3, "EAN-8": 3, "Code 128": 3, "Code 39": 5 };
+// Light space before the first bar, in modules (the spec asks for more; crops are tight)
+const QUIET_ZONE = 5;
+
+export function findBarcodes(bitmap: Bitmap): LinearCode[] {
+  const hits: RowHit[] = [];
+  for (let y = 0; y < bitmap.height; y++) {
+    const { runs, starts } = rowRuns(bitmap, y);
+    for (const hit of readRow(runs, starts)) hits.push({ ...hit, y });
+    // Upside down codes read right to left
+    const reversedStarts = starts.map((s, i) => bitmap.width - s - runs[i]).reverse();
+    for (const hit of readRow([...runs].reverse(), reversedStarts)) hits.push({ ...hit, x0: bitmap.width - hit.x1, x1: bitmap.width - hit.x0, y });
+  }
+  return groupHits(hits);
+}
+
+// Run lengths along a row, starting with a (possibly empty) light run
+function rowRuns(bitmap: Bitmap, y: number): { runs: number[]; starts: number[] } {
+  const { width, bits } = bitmap;
+  const runs = [0];
+  const starts = [0];
+  let dark = false;
+  for (let x = 0; x < width; x++) {
+    const v = bits[y * width + x] === 1;
+    if (v !== dark) {
+      runs.push(0);
+      starts.push(x);
+      dark = v;
+    }
+    runs[runs.length - 1]++;
+  }
+  // End on a light run so every bar has a space after it
+  if (dark) {
+    runs.push(0);
+    starts.push(width);
+  }
+  return { runs, starts };
+}
+
+function readRow(runs: number[], starts: number[]): Array<Omit<RowHit, "y">> {
+  const found: Array<Omit<RowHit, "y">> = [];
+  // Odd indexes are bars; each one after a wide enough space may start a code
+  for (let i = 1; i < runs.length; i += 2) {
+    const read = readEan13(runs, i) ?? readEan8(runs, i) ?? readCode128(runs, i) ?? readCode39(runs, i);
+    if (!read) continue;
+    const unit = read.width / read.modules;
+    const before = runs[i - 1];
+    const after = runs[read.end] ?? 0;
+    // The image edge counts as quiet
+    const quietBefore = before >= unit * QUIET_ZONE || starts[i - 1] === 0;
+    const quietAfter = after >= unit * QUIET_ZONE || read.end === runs.length - 1;
+    if (!quietBefore || !quietAfter) continue;
+    found.push({ format: read.format, text: read.text, x0: starts[i], x1: starts[read.end] });
+    // Carry on from the first bar after this code
+    i = read.end - 1;
+  }
+  return found;
+}
+
+type Read = { format: LinearFormat; text: string; end: number; width: number; modules: number };
+
+const sum = (runs: number[], from: number, count: number) => {
+  let s = 0;
+  for (let i = from; i < from + count; i++) s += runs[i] ?? 0;
+  return s;
+};
+
+// Distance between measured runs and a pattern of module widths, per module
+function mismatch(runs: number[], from: number, pattern: number[]): number {
+  const total = sum(runs, from, pattern.length);
+  const modules = pattern.reduce((a, b) => a + b, 0);
+  if (total === 0) return Infinity;
+  const unit = total / modules;
+  let error = 0;
+  for (let i = 0; i < pattern.length; i++) error += Math.abs((runs[from + i] ?? 0) / unit - pattern[i]);
+  return error / modules;
+}
+
+function bestMatch(runs: number[], from: number, patterns: number[][], limit: number): number {
+  let best = -1;
+  let bestError = limit;
+  patterns.forEach((pattern, value) => {
+    const error = mismatch(runs, from, pattern);
+    if (error < bestError) {
+      best = value;
+      bestError = error;
+    }
+  });
+  return best;
+}
+
+const digits = (s: string) => s.split("").map(Number);
+
+// --- EAN / UPC ---
+
+// Left-hand odd parity (L) digit patterns as space-bar-space-bar widths; R codes use the same widths starting with a bar
+const EAN_L = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"].map(digits);
+// Even parity (G) is L reversed
+const EAN_G = EAN_L.map((p) => [...p].reverse());
+const EAN_LG = [...EAN_L, ...EAN_G];
+// Parity of the six left digits encodes the 13th (first) digit, 1 = G
+const EAN_FIRST = ["000000", "001011", "001101", "001110", "010011", "011001", "011100", "010101", "010110", "011010"];
+const DIGIT_LIMIT = 0.18;
+const GUARD_LIMIT = 0.25;
+
+function eanChecksumOk(code: string): boolean {
+  const d = digits(code);
+  const check = d.pop()!;
+  // Weights 3,1,3,… from the digit next to the check digit
+  const total = d.reverse().reduce((acc, v, i) => acc + v * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (total % 10)) % 10 === check;
+}
+
+function readEan13(runs: number[], i: number): Read | null {
+  if (i + 59 > runs.length) return null;
+  if (mismatch(runs, i, [1, 1, 1]) > GUARD_LIMIT || mismatch(runs, i + 27, [1, 1, 1, 1, 1]) > GUARD_LIMIT || mismatch(runs, i + 56, [1, 1, 1]) > GUARD_LIMIT) return null;
+  let text = "";
+  let parity = "";
+  for (let d = 0; d < 6; d++) {
+    const v = bestMatch(runs, i + 3 + d * 4, EAN_LG, DIGIT_LIMIT);
+    if (v < 0) return null;
+    text += v % 10;
+    parity += v >= 10 ? "1" : "0";
+  }
+  for (let d = 0; d < 6; d++) {
+    const v = bestMatch(runs, i + 32 + d * 4, EAN_L, DIGIT_LIMIT);
+    if (v < 0) return null;
+    text += v;
+  }
+  const first = EAN_FIRST.indexOf(parity);
+  if (first < 0) return null;
+  text = `${first}${text}`;
+  if (!eanChecksumOk(text)) return null;
+  const read = { end: i + 59, width: sum(runs, i, 59), modules: 95 };
+  return text.startsWith("0") ? { format: "UPC-A", text: text.slice(1), ...read } : { format: "EAN-13", text, ...read };
+}
+
+function readEan8(runs: number[], i: number): Read | null {
+  if (i + 43 > runs.length) return null;
+  if (mismatch(runs, i, [1, 1, 1]) > GUARD_LIMIT || mismatch(runs, i + 19, [1, 1, 1, 1, 1]) > GUARD_LIMIT || mismatch(runs, i + 40, [1, 1, 1]) > GUARD_LIMIT) return null;
+  let text = "";
+  for (const from of [i + 3, i + 24]) {
+    for (let d = 0; d < 4; d++) {
+      const v = bestMatch(runs, from + d * 4, EAN_L, DIGIT_LIMIT);
+      if (v < 0) return null;
+      text += v;
+    }
+  }
+  if (!eanChecksumOk(text)) return null;
+  return { format: "EAN-8", text, end: i + 43, width: sum(runs, i, 43), modules: 67 };
+}
+
+// --- Code 128 ---
+
+// Bar-space widths of symbol values 0-105; the stop symbol has a seventh bar
+const CODE128 = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+].map(digits);
+const CODE128_STOP = digits("2331112");
+const SYMBOL_LIMIT = 0.2;
+
+function readCode128(runs: number[], i: number): Read | null {
+  const start = bestMatch(runs, i, CODE128, SYMBOL_LIMIT);
+  if (start < 103) return null;
+  const values = [start];
+  let pos = i + 6;
+  for (;;) {
+    if (pos + 7 > runs.length) return null;
+    if (mismatch(runs, pos, CODE128_STOP) < SYMBOL_LIMIT) break;
+    const v = bestMatch(runs, pos, CODE128, SYMBOL_LIMIT);
+    if (v < 0 || v >= 103) return null;
+    values.push(v);
+    pos += 6;
+  }
+  // Start, at least one data symbol and the check symbol
+  if (values.length < 3) return null;
+  const check = values.pop()!;
+  const expected = values.reduce((acc, v, idx) => acc + v * Math.max(1, idx), 0) % 103;
+  if (expected !== check) return null;
+
+  let set: "A" | "B" | "C" = start === 103 ? "A" : start === 104 ? "B" : "C";
+  let text = "";
+  let shift = false;
+  for (const v of values.slice(1)) {
+    const current = shift ? (set === "A" ? "B" : "A") : set;
+    shift = false;
+    if (current === "C" && v < 100) {
+      text += String(v).padStart(2, "0");
+      continue;
+    }
+    if (v < 96) {
+      text += current === "A" && v >= 64 ? String.fromCharCode(v - 64) : String.fromCharCode(v + 32);
+      continue;
+    }
+    if (v === 98 && current !== "C") shift = true;
+    else if (v === 99) set = "C";
+    else if (v === 100 && current !== "B") set = "B";
+    else if (v === 101 && current !== "A") set = "A";
+    // FNC1-4 are control signals, not text
+  }
+  const end = pos + 7;
+  return { format: "Code 128", text, end, width: sum(runs, i, end - i), modules: 11 * values.length + 11 + 13 };
+}
+
+// --- Code 39 ---
+
+const CODE39_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%*";
+// Nine elements per character, bar first; a set bit is a wide element
+const CODE39 = [
+  0x034, 0x121, 0x061, 0x160, 0x031, 0x130, 0x070, 0x025, 0x124, 0x064,
+  0x109, 0x049, 0x148, 0x019, 0x118, 0x058, 0x00d, 0x10c, 0x04c, 0x01c,
+  0x103, 0x043, 0x142, 0x013, 0x112, 0x052, 0x007, 0x106, 0x046, 0x016,
+  0x181, 0x0c1, 0x1c0, 0x091, 0x190, 0x0d0, 0x085, 0x184, 0x0c4, 0x0a8,
+  0x0a2, 0x08a, 0x02a, 0x094,
+];
+
+function readCode39Char(runs: number[], from: number): string | null {
+  if (from + 9 > runs.length) return null;
+  const widths = runs.slice(from, from + 9);
+  const sorted = [...widths].sort((a, b) => b - a);
+  // Exactly three wide elements, clearly wider than the six narrow ones
+  if (sorted[2] < sorted[3] * 1.6 || sorted[0] > sorted[8] * 4.5) return null;
+  let bits = 0;
+  for (const w of widths) bits = (bits << 1) | (w >= sorted[2] ? 1 : 0);
+  const index = CODE39.indexOf(bits);
+  return index < 0 ? null : CODE39_CHARS[index];
+}
+
+function readCode39(runs: number[], i: number): Read | null {
+  if (readCode39Char(runs, i) !== "*") return null;
+  let text = "";
+  let pos = i + 10;
+  for (;;) {
+    const ch = readCode39Char(runs, pos);
+    if (ch === null) return null;
+    if (ch === "*") break;
+    text += ch;
+    // The gap between characters is a narrow space
+    if ((runs[pos + 9] ?? 0) > runs[pos] * 3) return null;
+    pos += 10;
+  }
+  if (text.length < 2) return null;
+  const end = pos + 9;
+  // Each character is 12 modules at a 2:1 wide ratio, plus a one-module gap
+  return { format: "Code 39", text, end, width: sum(runs, i, end - i), modules: (text.length + 2) * 13 - 1 };
+}
+
+// Rows reading the same value over the same columns are one barcode
+function groupHits(hits: RowHit[]): LinearCode[] {
+  const groups: Array<{ format: LinearFormat; text: string; x0: number; x1: number; rows: number[] }> = [];
+  for (const hit of hits) {
+    const group = groups.find(
+      (g) => g.format === hit.format && g.text === hit.text && hit.x0 < g.x1 && hit.x1 > g.x0 && hit.y - g.rows[g.rows.length - 1] <= 3
+    );
+    if (group) {
+      group.x0 = Math.min(group.x0, hit.x0);
+      group.x1 = Math.max(group.x1, hit.x1);
+      group.rows.push(hit.y);
+    } else {
+      groups.push({ format: hit.format, text: hit.text, x0: hit.x0, x1: hit.x1, rows: [hit.y] });
+    }
+  }
+  return groups
+    .filter((g) => new Set(g.rows).size >= MIN_ROWS[g.format])
+    .map((g) => ({
+      format: g.format,
+      text: g.text,
+      bbox: { x0: g.x0, y0: Math.min(...g.rows), x1: g.x1, y1: Math.max(...g.rows) + 1 },
+    }));
+}
@@ -0,0 +1,84 @@
+// Well-known QR payload formats, split into the values a reviewer cares about.
+// Anything else is classified as plain text by the caller.
+
+export type PayloadField = { label: string; value: string };
+
+// "WIFI:S:Home;T:WPA;P:secret;;" and MECARD use ;-separated KEY:value pairs with \-escapes
+function keyValues(body: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (const part of body.split(/(?<!\\);/)) {
+    const colon = part.indexOf(":");
+    if (colon <= 0) continue;
+    pairs.push([part.slice(0, colon).toUpperCase(), part.slice(colon + 1).replace(/\\([\\;,:"])/g, "$1")]);
+  }
+  return pairs;
+}
+
+// Payloads are hand-made often enough that a stray % shouldn't lose the field
+function decode(s: string): string {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+}
+
+const SECRET_PARAMS = /^(token|access_token|key|api_key|apikey|secret|password|pwd|code|sig|signature|auth|session)$/i;
+
+export function payloadFields(text: string): PayloadField[] {
+  const trimmed = text.trim();
+
+  if (/^WIFI:/i.test(trimmed)) {
+    const pairs = keyValues(trimmed.slice(5));
+    return pairs.flatMap(([key, value]): PayloadField[] =>
+      key === "S" ? [{ label: "Wi-Fi network", value }] : key === "P" && value ? [{ label: "Wi-Fi password", value }] : []
+    );
+  }
+
+  if (/^MECARD:/i.test(trimmed)) {
+    const labels: Record<string, string> = { N: "Name", TEL: "Phone", EMAIL: "Email", ADR: "Address" };
+    return keyValues(trimmed.slice(7)).flatMap(([key, value]) => (labels[key] ? [{ label: labels[key], value: value.replace(/,/g, " ") }] : []));
+  }
+
+  if (/^BEGIN:VCARD/i.test(trimmed)) {
+    const labels: Record<string, string> = { FN: "Name", TEL: "Phone", EMAIL: "Email", ADR: "Address" };
+    return trimmed.split(/\r?\n/).flatMap((line) => {
+      const match = line.match(/^([A-Z]+)[^:]*:(.*)$/i);
+      const label = match && labels[match[1].toUpperCase()];
+      return label ? [{ label, value: match[2].replace(/;+/g, " ").trim() }] : [];
+    });
+  }
+
+  const scheme = trimmed.match(/^([a-z][a-z0-9+.-]*):(?:\/\/)?(.*)$/i);
+  if (!scheme) return [];
+  const [, name, rest] = scheme;
+  const [target, query = ""] = rest.split("?", 2);
+  const params = new URLSearchParams(query);
+
+  switch (name.toLowerCase()) {
+    case "mailto":
+      return [{ label: "Email", value: decode(target) }];
+    case "tel":
+    case "sms":
+    case "smsto":
+      return [{ label: "Phone", value: decode(target.split(":")[0]) }];
+    case "otpauth": {
+      // otpauth://totp/Issuer:account?secret=…
+      const account = decode(target.split("/").slice(1).join("/"));
+      return [
+        ...(params.get("secret") ? [{ label: "2FA secret", value: params.get("secret")! }] : []),
+        ...(account ? [{ label: "Account", value: account.split(":").pop()! }] : []),
+      ];
+    }
+    case "bitcoin":
+    case "litecoin":
+    case "ethereum":
+    case "solana":
+      return [{ label: "Wallet", value: target.replace(/@\d+$/, "") }];
+    case "http":
+    case "https":
+      return [...params].filter(([key, value]) => SECRET_PARAMS.test(key) && value).map(([key, value]) => ({ label: `Link ${key}`, value }));
+    default:
+      return [];
+  }
+}
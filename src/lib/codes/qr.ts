@@ -0,0 +1,466 @@
+import type { Bitmap } from "@/lib/codes/binarize";
+import { correctErrors } from "@/lib/codes/reedSolomon";
+
+// QR code locator and decoder. Screenshots show codes flat and upright (or
+// rotated by a multiple of 90°), so three finder patterns fix an affine grid
+// and no perspective correction is needed.
+
+export type Point = { x: number; y: number };
+
+export type QrCode = {
+  text: string;
+  version: number;
+  // Corners of the symbol without its quiet zone, clockwise from top left
+  corners: [Point, Point, Point, Point];
+};
+
+type Finder = Point & { moduleSize: number; hits: number };
+
+// Error correction codewords per block and number of blocks, by level (L, M, Q, H) and version
+const EC_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+const BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+// Format bits store the level as M=0, L=1, H=2, Q=3; index into the tables above
+const LEVEL_INDEX = [1, 0, 3, 2];
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// All 32 valid format words, for nearest-match decoding
+const FORMAT_WORDS = Array.from({ length: 32 }, (_, data) => {
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return { data, word: ((data << 10) | rem) ^ 0x5412 };
+});
+
+export function findQrCodes(bitmap: Bitmap): QrCode[] {
+  const finders = findFinders(bitmap).filter((f) => f.hits >= 2);
+  const codes: QrCode[] = [];
+  const used = new Set<Finder>();
+  for (const [topLeft, topRight, bottomLeft] of finderTriples(finders)) {
+    if (used.has(topLeft) || used.has(topRight) || used.has(bottomLeft)) continue;
+    const code = decodeAt(bitmap, topLeft, topRight, bottomLeft);
+    if (!code) continue;
+    codes.push(code);
+    used.add(topLeft).add(topRight).add(bottomLeft);
+  }
+  return codes;
+}
+
+// --- Locating ---
+
+// Dark-light-dark-light-dark runs in a 1:1:3:1:1 ratio
+function isFinderRatio(runs: number[]): boolean {
+  const total = runs.reduce((a, b) => a + b, 0);
+  if (total < 7) return false;
+  const unit = total / 7;
+  const slack = unit / 2;
+  return (
+    Math.abs(runs[0] - unit) < slack &&
+    Math.abs(runs[1] - unit) < slack &&
+    Math.abs(runs[2] - 3 * unit) < 3 * slack &&
+    Math.abs(runs[3] - unit) < slack &&
+    Math.abs(runs[4] - unit) < slack
+  );
+}
+
+// Measures the five runs through (x, y) along one axis; returns the centre on that axis
+function crossCheck(bitmap: Bitmap, x: number, y: number, vertical: boolean, maxRun: number): { centre: number; total: number } | null {
+  const { width, height, bits } = bitmap;
+  const at = (i: number) => (vertical ? bits[i * width + x] : bits[y * width + i]);
+  const limit = vertical ? height : width;
+  const start = vertical ? y : x;
+  const runs = [0, 0, 0, 0, 0];
+
+  let i = start;
+  while (i >= 0 && at(i)) { runs[2]++; i--; }
+  if (i < 0) return null;
+  while (i >= 0 && !at(i) && runs[1] <= maxRun) { runs[1]++; i--; }
+  if (i < 0 || runs[1] > maxRun) return null;
+  while (i >= 0 && at(i) && runs[0] <= maxRun) { runs[0]++; i--; }
+  if (runs[0] > maxRun) return null;
+
+  i = start + 1;
+  while (i < limit && at(i)) { runs[2]++; i++; }
+  if (i >= limit) return null;
+  while (i < limit && !at(i) && runs[3] <= maxRun) { runs[3]++; i++; }
+  if (i >= limit || runs[3] > maxRun) return null;
+  while (i < limit && at(i) && runs[4] <= maxRun) { runs[4]++; i++; }
+  if (runs[4] > maxRun) return null;
+
+  if (!isFinderRatio(runs)) return null;
+  return { centre: i - runs[4] - runs[3] - runs[2] / 2, total: runs.reduce((a, b) => a + b, 0) };
+}
+
+function findFinders(bitmap: Bitmap): Finder[] {
+  const { width, height, bits } = bitmap;
+  const finders: Finder[] = [];
+
+  const confirm = (runs: number[], endX: number, y: number) => {
+    const total = runs.reduce((a, b) => a + b, 0);
+    const cx = Math.floor(endX - runs[4] - runs[3] - runs[2] / 2);
+    const vertical = crossCheck(bitmap, cx, y, true, runs[2]);
+    if (!vertical) return;
+    const cy = Math.floor(vertical.centre);
+    const horizontal = crossCheck(bitmap, cx, cy, false, runs[2]);
+    if (!horizontal) return;
+    const moduleSize = (total + vertical.total + horizontal.total) / 21;
+    const point = { x: horizontal.centre, y: vertical.centre };
+    const same = finders.find(
+      (f) => Math.abs(f.x - point.x) <= moduleSize && Math.abs(f.y - point.y) <= moduleSize && Math.abs(f.moduleSize - moduleSize) <= Math.max(1, moduleSize * 0.5)
+    );
+    if (same) {
+      same.x = (same.x * same.hits + point.x) / (same.hits + 1);
+      same.y = (same.y * same.hits + point.y) / (same.hits + 1);
+      same.moduleSize = (same.moduleSize * same.hits + moduleSize) / (same.hits + 1);
+      same.hits++;
+    } else {
+      finders.push({ ...point, moduleSize, hits: 1 });
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    const runs = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x < width; x++) {
+      const dark = bits[y * width + x] === 1;
+      if (dark) {
+        // A dark pixel ends a light run
+        if (state % 2 === 1) state++;
+        runs[state]++;
+      } else if (state % 2 === 1) {
+        runs[state]++;
+      } else if (state === 4) {
+        if (isFinderRatio(runs)) confirm(runs, x, y);
+        // Keep the last dark-light pair as the start of the next candidate
+        runs.splice(0, 2);
+        runs.push(1, 0);
+        state = 3;
+      } else if (runs[0] > 0) {
+        state++;
+        runs[state]++;
+      }
+    }
+    if (state === 4 && isFinderRatio(runs)) confirm(runs, width, y);
+  }
+  return finders;
+}
+
+// Candidate (top left, top right, bottom left) triples, most plausible first:
+// similar module sizes and a right angle with equal legs at the top left
+function finderTriples(finders: Finder[]): Array<[Finder, Finder, Finder]> {
+  const sorted = [...finders].sort((a, b) => b.hits - a.hits).slice(0, 40);
+  const triples: Array<{ triple: [Finder, Finder, Finder]; error: number }> = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      for (let k = j + 1; k < sorted.length; k++) {
+        const points = [sorted[i], sorted[j], sorted[k]];
+        const sizes = points.map((p) => p.moduleSize);
+        if (Math.max(...sizes) > Math.min(...sizes) * 1.4) continue;
+        const ordered = orderFinders(points);
+        if (!ordered) continue;
+        const [a, b, c] = ordered;
+        const legB = Math.hypot(b.x - a.x, b.y - a.y);
+        const legC = Math.hypot(c.x - a.x, c.y - a.y);
+        const hypotenuse = Math.hypot(b.x - c.x, b.y - c.y);
+        const unit = (sizes[0] + sizes[1] + sizes[2]) / 3;
+        // Version 1 has finder centres 14 modules apart
+        if (Math.min(legB, legC) < unit * 12) continue;
+        const legError = Math.abs(legB - legC) / Math.max(legB, legC);
+        const angleError = Math.abs(hypotenuse / Math.hypot(legB, legC) - 1);
+        if (legError > 0.15 || angleError > 0.1) continue;
+        triples.push({ triple: ordered, error: legError + angleError });
+      }
+    }
+  }
+  return triples.sort((a, b) => a.error - b.error).map((t) => t.triple);
+}
+
+// The top left finder is the one opposite the longest side; the other two are
+// ordered so that top right → bottom left turns clockwise in image coordinates
+function orderFinders(points: Finder[]): [Finder, Finder, Finder] | null {
+  const d = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+  const [p0, p1, p2] = points;
+  const sides = [d(p1, p2), d(p0, p2), d(p0, p1)];
+  const corner = sides.indexOf(Math.max(...sides));
+  const a = points[corner];
+  let [b, c] = points.filter((_, i) => i !== corner);
+  const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  if (cross === 0) return null;
+  if (cross < 0) [b, c] = [c, b];
+  return [a, b, c];
+}
+
+// --- Sampling ---
+
+function decodeAt(bitmap: Bitmap, topLeft: Finder, topRight: Finder, bottomLeft: Finder): QrCode | null {
+  const unit = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  const across = (Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) + Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y)) / 2;
+  const estimate = Math.round((across / unit + 7 - 17) / 4);
+  // The module size is measured on anti-aliased edges; try the neighbouring versions too
+  for (const version of [estimate, estimate + 1, estimate - 1]) {
+    if (version < 1 || version > 40) continue;
+    const size = version * 4 + 17;
+    const grid = sampleGrid(bitmap, topLeft, topRight, bottomLeft, size);
+    const text = decodeGrid(grid, version);
+    if (text === null) continue;
+    const at = (mx: number, my: number) => gridToImage(topLeft, topRight, bottomLeft, size, mx, my);
+    return { text, version, corners: [at(0, 0), at(size, 0), at(size, size), at(0, size)] };
+  }
+  return null;
+}
+
+// Module coordinates → image pixels. Finder centres sit 3.5 modules in from their corners.
+function gridToImage(topLeft: Point, topRight: Point, bottomLeft: Point, size: number, mx: number, my: number): Point {
+  const span = size - 7;
+  const u = (mx - 3.5) / span;
+  const v = (my - 3.5) / span;
+  return {
+    x: topLeft.x + u * (topRight.x - topLeft.x) + v * (bottomLeft.x - topLeft.x),
+    y: topLeft.y + u * (topRight.y - topLeft.y) + v * (bottomLeft.y - topLeft.y),
+  };
+}
+
+function sampleGrid(bitmap: Bitmap, topLeft: Point, topRight: Point, bottomLeft: Point, size: number): Uint8Array {
+  const grid = new Uint8Array(size * size);
+  for (let my = 0; my < size; my++) {
+    for (let mx = 0; mx < size; mx++) {
+      const p = gridToImage(topLeft, topRight, bottomLeft, size, mx + 0.5, my + 0.5);
+      const x = Math.floor(p.x);
+      const y = Math.floor(p.y);
+      if (x < 0 || y < 0 || x >= bitmap.width || y >= bitmap.height) continue;
+      grid[my * size + mx] = bitmap.bits[y * bitmap.width + x];
+    }
+  }
+  return grid;
+}
+
+// --- Decoding ---
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+}
+
+// Finders, separators, timing, alignment, format and version areas
+function functionModules(version: number): Uint8Array {
+  const size = version * 4 + 17;
+  const fn = new Uint8Array(size * size);
+  const mark = (x0: number, y0: number, w: number, h: number) => {
+    for (let y = Math.max(0, y0); y < Math.min(size, y0 + h); y++) {
+      for (let x = Math.max(0, x0); x < Math.min(size, x0 + w); x++) fn[y * size + x] = 1;
+    }
+  };
+  mark(0, 0, 9, 9);
+  mark(size - 8, 0, 8, 9);
+  mark(0, size - 8, 9, 8);
+  mark(6, 0, 1, size);
+  mark(0, 6, size, 1);
+  const align = alignmentPositions(version);
+  for (const ay of align) {
+    for (const ax of align) {
+      // Skip the three that would overlap finders
+      if ((ax === 6 && ay === 6) || (ax === 6 && ay === size - 7) || (ax === size - 7 && ay === 6)) continue;
+      mark(ax - 2, ay - 2, 5, 5);
+    }
+  }
+  if (version >= 7) {
+    mark(size - 11, 0, 3, 6);
+    mark(0, size - 11, 6, 3);
+  }
+  return fn;
+}
+
+function readFormat(grid: Uint8Array, size: number): { level: number; mask: number } | null {
+  const bit = (x: number, y: number) => grid[y * size + x];
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i <= 5; i++) first |= bit(8, i) << i;
+  first |= bit(8, 7) << 6;
+  first |= bit(8, 8) << 7;
+  first |= bit(7, 8) << 8;
+  for (let i = 9; i < 15; i++) first |= bit(14 - i, 8) << i;
+  for (let i = 0; i < 8; i++) second |= bit(size - 1 - i, 8) << i;
+  for (let i = 8; i < 15; i++) second |= bit(8, size - 15 + i) << i;
+
+  let best: { data: number; distance: number } | null = null;
+  for (const { data, word } of FORMAT_WORDS) {
+    for (const read of [first, second]) {
+      let distance = 0;
+      for (let v = word ^ read; v; v &= v - 1) distance++;
+      if (!best || distance < best.distance) best = { data, distance };
+    }
+  }
+  if (!best || best.distance > 3) return null;
+  return { level: LEVEL_INDEX[best.data >> 3], mask: best.data & 7 };
+}
+
+function readCodewords(grid: Uint8Array, version: number, mask: number): Uint8Array {
+  const size = version * 4 + 17;
+  const fn = functionModules(version);
+  const maskFn = MASKS[mask];
+  const bytes: number[] = [];
+  let current = 0;
+  let count = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const y = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (fn[y * size + x]) continue;
+        const value = grid[y * size + x] ^ (maskFn(x, y) ? 1 : 0);
+        current = (current << 1) | value;
+        if (++count === 8) {
+          bytes.push(current);
+          current = 0;
+          count = 0;
+        }
+      }
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+// Splits the interleaved codewords into blocks, corrects each and returns the data bytes
+function correctBlocks(codewords: Uint8Array, version: number, level: number): Uint8Array | null {
+  const ecLength = EC_PER_BLOCK[level][version];
+  const blockCount = BLOCKS[level][version];
+  const total = codewords.length;
+  const shortLength = Math.floor(total / blockCount);
+  const shortCount = blockCount - (total % blockCount);
+  const dataLengths = Array.from({ length: blockCount }, (_, b) => shortLength - ecLength + (b < shortCount ? 0 : 1));
+  const blocks = dataLengths.map((len) => new Uint8Array(len + ecLength));
+
+  let k = 0;
+  const longestData = Math.max(...dataLengths);
+  for (let i = 0; i < longestData; i++) {
+    for (let b = 0; b < blockCount; b++) if (i < dataLengths[b]) blocks[b][i] = codewords[k++];
+  }
+  for (let i = 0; i < ecLength; i++) {
+    for (let b = 0; b < blockCount; b++) blocks[b][dataLengths[b] + i] = codewords[k++];
+  }
+
+  const data: number[] = [];
+  for (let b = 0; b < blockCount; b++) {
+    if (!correctErrors(blocks[b], ecLength)) return null;
+    data.push(...blocks[b].subarray(0, dataLengths[b]));
+  }
+  return Uint8Array.from(data);
+}
+
+function decodeGrid(grid: Uint8Array, version: number): string | null {
+  const size = version * 4 + 17;
+  const format = readFormat(grid, size);
+  if (!format) return null;
+  const data = correctBlocks(readCodewords(grid, version, format.mask), version, format.level);
+  return data ? decodeSegments(data, version) : null;
+}
+
+const ALPHANUMERIC = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+function decodeSegments(data: Uint8Array, version: number): string | null {
+  let pos = 0;
+  const read = (n: number) => {
+    let v = 0;
+    for (let i = 0; i < n; i++, pos++) {
+      const byte = data[pos >> 3];
+      if (byte === undefined) return -1;
+      v = (v << 1) | ((byte >> (7 - (pos & 7))) & 1);
+    }
+    return v;
+  };
+  const sizeClass = version < 10 ? 0 : version < 27 ? 1 : 2;
+  const left = () => data.length * 8 - pos;
+
+  let text = "";
+  let encoding = "utf-8";
+  const bytes: number[] = [];
+  const flushBytes = () => {
+    if (bytes.length === 0) return;
+    text += decodeBytes(Uint8Array.from(bytes), encoding);
+    bytes.length = 0;
+  };
+
+  while (left() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+    if (mode === 7) {
+      // ECI: only the designators that name an encoding TextDecoder knows
+      const first = read(8);
+      const designator = first < 0x80 ? first : first < 0xc0 ? ((first & 0x3f) << 8) | read(8) : ((first & 0x1f) << 16) | read(16);
+      flushBytes();
+      encoding = ECI_ENCODINGS[designator] ?? encoding;
+      continue;
+    }
+    if (mode === 1) {
+      flushBytes();
+      let count = read([10, 12, 14][sizeClass]);
+      while (count >= 3) { text += String(read(10)).padStart(3, "0"); count -= 3; }
+      if (count === 2) text += String(read(7)).padStart(2, "0");
+      if (count === 1) text += String(read(4));
+    } else if (mode === 2) {
+      flushBytes();
+      let count = read([9, 11, 13][sizeClass]);
+      while (count >= 2) {
+        const v = read(11);
+        text += ALPHANUMERIC[Math.floor(v / 45)] + ALPHANUMERIC[v % 45];
+        count -= 2;
+      }
+      if (count === 1) text += ALPHANUMERIC[read(6)];
+    } else if (mode === 4) {
+      const count = read([8, 16, 16][sizeClass]);
+      for (let i = 0; i < count; i++) bytes.push(read(8));
+    } else if (mode === 8) {
+      flushBytes();
+      const count = read([8, 10, 12][sizeClass]);
+      const sjis: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const v = read(13);
+        const code = Math.floor(v / 0xc0) * 0x100 + (v % 0xc0);
+        const word = code + (code < 0x1f00 ? 0x8140 : 0xc140);
+        sjis.push(word >> 8, word & 0xff);
+      }
+      text += decodeBytes(Uint8Array.from(sjis), "shift_jis");
+    } else {
+      // Structured append, FNC1 and unknown modes carry nothing we can show
+      return text || null;
+    }
+    if (pos > data.length * 8) return null;
+  }
+  flushBytes();
+  return text;
+}
+
+const ECI_ENCODINGS: Record<number, string> = { 1: "iso-8859-1", 3: "iso-8859-1", 20: "shift_jis", 22: "windows-1251", 26: "utf-8", 28: "big5", 29: "gbk", 30: "euc-kr" };
+
+// Byte mode has no declared encoding; UTF-8 is what generators use, Latin-1 the spec default
+function decodeBytes(bytes: Uint8Array, encoding: string): string {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("iso-8859-1").decode(bytes);
+  }
+}
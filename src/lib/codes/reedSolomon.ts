@@ -0,0 +1,95 @@
+// Reed-Solomon error correction over GF(256) with the QR polynomial
+// x^8 + x^4 + x^3 + x^2 + 1. A screenshot rarely damages a code, but an
+// overlapping cursor, a rounded corner or a logo in the middle does.
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+}
+
+const mul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const div = (a: number, b: number) => (a === 0 ? 0 : EXP[(LOG[a] + 255 - LOG[b]) % 255]);
+
+// Polynomial in x evaluated at a, coefficients lowest degree first
+function evalLow(poly: number[], a: number): number {
+  let y = 0;
+  for (let i = poly.length - 1; i >= 0; i--) y = mul(y, a) ^ poly[i];
+  return y;
+}
+
+// Corrects a block of data + `ecLength` check bytes in place. Returns false
+// when there are more errors than the check bytes can fix.
+export function correctErrors(block: Uint8Array, ecLength: number): boolean {
+  const n = block.length;
+  // Syndromes: the received word evaluated at α^0..α^(ecLength-1), first byte highest degree
+  const syndromes: number[] = [];
+  let clean = true;
+  for (let i = 0; i < ecLength; i++) {
+    let s = 0;
+    for (let k = 0; k < n; k++) s = mul(s, EXP[i]) ^ block[k];
+    syndromes.push(s);
+    if (s !== 0) clean = false;
+  }
+  if (clean) return true;
+
+  // Berlekamp-Massey for the error locator Λ(x)
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let i = 0; i < ecLength; i++) {
+    let d = syndromes[i];
+    for (let j = 1; j <= errors; j++) d ^= mul(locator[j] ?? 0, syndromes[i - j]);
+    if (d === 0) {
+      shift++;
+      continue;
+    }
+    const scale = div(d, lastDiscrepancy);
+    const next = locator.slice();
+    for (let j = 0; j < previous.length; j++) {
+      next[j + shift] = (next[j + shift] ?? 0) ^ mul(scale, previous[j]);
+    }
+    if (2 * errors <= i) {
+      previous = locator;
+      errors = i + 1 - errors;
+      lastDiscrepancy = d;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (2 * errors > ecLength) return false;
+
+  // Chien search: byte k is wrong when Λ(X_k^-1) = 0, with X_k = α^(n-1-k)
+  const positions: number[] = [];
+  for (let k = 0; k < n; k++) {
+    const xInv = EXP[(255 - ((n - 1 - k) % 255)) % 255];
+    if (evalLow(locator, xInv) === 0) positions.push(k);
+  }
+  if (positions.length !== errors) return false;
+
+  // Forney: e_k = X_k · Ω(X_k^-1) / Λ'(X_k^-1), Ω = S·Λ mod x^ecLength
+  const omega = new Array<number>(ecLength).fill(0);
+  for (let i = 0; i < ecLength; i++) {
+    for (let j = 0; j < locator.length && i + j < ecLength; j++) omega[i + j] ^= mul(syndromes[i], locator[j]);
+  }
+  const derivative = locator.map((c, i) => (i % 2 === 1 ? c : 0)).slice(1);
+  for (const k of positions) {
+    const x = EXP[(n - 1 - k) % 255];
+    const xInv = div(1, x);
+    const denominator = evalLow(derivative, xInv);
+    if (denominator === 0) return false;
+    block[k] ^= mul(x, div(evalLow(omega, xInv), denominator));
+  }
+  return true;
+}
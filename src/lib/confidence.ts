@@ -0,0 +1,66 @@
+import type { Recognizer, RecognizerOptions } from "@/lib/recognizers";
+
+// Combined detection confidence. Tesseract's word confidence only says how sure
+// the OCR is about the characters, not whether they are PII, so it is blended
+// with how well the candidate validated and how distinctive its pattern is.
+
+export type ConfidenceBreakdown = {
+  // Mean Tesseract confidence of the matched words, 0-100
+  ocr?: number;
+  // How well an image region fits the expected outline, 0-100, for detections
+  // found by shape rather than read (avatars); weighs in place of `ocr`
+  shape?: number;
+  // 1 = checksum or structure fully verified, lower for partial or no validation
+  validator: number;
+  // How rarely the pattern matches by accident, from the recognizer
+  specificity: number;
+  // A label such as "Card number" or "Tel" on the same line
+  context: boolean;
+  notes: string[];
+};
+
+const WEIGHTS = { ocr: 0.45, validator: 0.35, specificity: 0.2 };
+const CONTEXT_BONUS = 8;
+// A pattern that matched and passed `validate`, with nothing stronger to go on
+const UNVERIFIED = 0.6;
+
+export function combineConfidence(b: Omit<ConfidenceBreakdown, "notes">): number {
+  const score =
+    (b.ocr ?? b.shape ?? 0) * WEIGHTS.ocr +
+    b.validator * 100 * WEIGHTS.validator +
+    b.specificity * 100 * WEIGHTS.specificity +
+    (b.context ? CONTEXT_BONUS : 0);
+  return Math.max(0, Math.min(99, score));
+}
+
+export function scoreMatch(
+  recognizer: Recognizer,
+  cleaned: string,
+  ocr: number,
+  lineText: string,
+  options: RecognizerOptions
+): { confidence: number; breakdown: ConfidenceBreakdown; strong: boolean } {
+  const strong = recognizer.isStrongMatch?.(cleaned, options, lineText) ?? false;
+  const factor = recognizer.confidenceFactor?.(cleaned, options);
+  const validator = strong ? 1 : factor ?? UNVERIFIED;
+  const context = recognizer.context?.test(lineText) ?? false;
+
+  const check = recognizer.check ?? "validation";
+  const notes = [
+    strong ? `${check} passed` : factor !== undefined ? `${check} ${Math.round(factor * 100)}%` : "pattern match only",
+  ];
+  const breakdown = { ocr, validator, specificity: recognizer.specificity ?? 0.5, context, notes };
+  return { confidence: combineConfidence(breakdown), breakdown, strong };
+}
+
+// Multi-line tooltip text for the review panel
+export function formatBreakdown(b: ConfidenceBreakdown): string {
+  return [
+    ...(b.ocr !== undefined ? [`OCR ${Math.round(b.ocr)}%`] : []),
+    ...(b.shape !== undefined ? [`Shape ${Math.round(b.shape)}%`] : []),
+    `Validator ${Math.round(b.validator * 100)}%`,
+    `Specificity ${Math.round(b.specificity * 100)}%`,
+    ...(b.context ? ["Label on line"] : []),
+    ...b.notes,
+  ].join("\n");
+}
@@ -0,0 +1,81 @@
+// User-defined redaction rules: literal terms (codenames, customer names) or
+// regexes (ticket prefixes like ACME-1234), matched against OCR lines next to
+// the built-in recognizers.
+
+export type RedactionMode = "blackout" | "blur" | "pixelate";
+
+export type CustomRule = {
+  id: string;
+  kind: "term" | "regex";
+  pattern: string;
+  // Shown in the review panel next to each match, e.g. "Ticket"
+  label: string;
+  mode: RedactionMode;
+  enabled: boolean;
+};
+
+export type CustomRuleMatch = {
+  rule: CustomRule;
+  // Exactly as it appears in the OCR line, and where
+  text: string;
+  index: number;
+};
+
+// Folds case and strips diacritics, keeping a map back to positions in the original
+function foldWithMap(text: string): { folded: string; map: number[] } {
+  let folded = "";
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const f = text[i].normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    for (const ch of f) {
+      folded += ch;
+      map.push(i);
+    }
+  }
+  map.push(text.length);
+  return { folded, map };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Returns an error message for a regex rule that doesn't compile, otherwise null
+export function validateRulePattern(kind: CustomRule["kind"], pattern: string): string | null {
+  if (!pattern.trim()) return "Pattern is empty";
+  if (kind === "term") return null;
+  try {
+    new RegExp(pattern, "giu");
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : "Invalid regular expression";
+  }
+}
+
+function compileRule(rule: CustomRule): RegExp | null {
+  if (validateRulePattern(rule.kind, rule.pattern) !== null) return null;
+  if (rule.kind === "regex") return new RegExp(rule.pattern, "giu");
+  const term = foldWithMap(rule.pattern.trim()).folded;
+  // Whole words only, so a codename doesn't fire inside a longer word
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term).replace(/\s+/g, "\\s+")}(?![\\p{L}\\p{N}])`, "gu");
+}
+
+export function findCustomRuleMatches(lineText: string, rules: CustomRule[]): CustomRuleMatch[] {
+  const out: CustomRuleMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const re = compileRule(rule);
+    if (!re) continue;
+    if (rule.kind === "regex") {
+      for (const m of lineText.matchAll(re)) {
+        if (m[0]) out.push({ rule, text: m[0], index: m.index ?? 0 });
+      }
+    } else {
+      // Terms match on the folded line so "Zoë" finds "ZOE" and "zoe"
+      const { folded, map } = foldWithMap(lineText);
+      for (const m of folded.matchAll(re)) {
+        const start = m.index ?? 0;
+        if (m[0]) out.push({ rule, text: lineText.slice(map[start], map[start + m[0].length]), index: map[start] });
+      }
+    }
+  }
+  return out;
+}
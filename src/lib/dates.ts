@@ -0,0 +1,82 @@
+// Date parsing for the date-of-birth recognizer. Covers the numeric, ISO and
+// written-out forms that show up in forms and profile pages; times are ignored.
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5,
+  jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const MONTH = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|");
+
+// "12/03/1988", "1988-03-12", "3 March 1988", "3rd of Mar. 1988", "March 3, 1988"
+const DATE_PATTERN = new RegExp(
+  [
+    `\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}`,
+    `\\d{1,2}[-/.]\\d{1,2}[-/.](?:\\d{4}|\\d{2})`,
+    `\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?(?:${MONTH})\\.?,?\\s+\\d{4}`,
+    `(?:${MONTH})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`,
+  ]
+    .map((alt) => `(?<![\\w/.\\-])(${alt})(?![\\w/\\-]|\\.\\d)`)
+    .join("|"),
+  "gi"
+);
+
+export type ParsedDate = {
+  year: number;
+  month: number;
+  day: number;
+  iso: string;
+  // Day and month could be read either way round ("04/05/1990")
+  ambiguous: boolean;
+};
+
+export function findDates(lineText: string): string[] {
+  return [...lineText.matchAll(DATE_PATTERN)].map((m) => m.slice(1).find(Boolean) as string);
+}
+
+function expandYear(yy: number, now: Date): number {
+  const pivot = now.getFullYear() % 100;
+  return yy > pivot ? 1900 + yy : 2000 + yy;
+}
+
+function build(year: number, month: number, day: number, ambiguous = false): ParsedDate | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  // Date rolls invalid days over into the next month, so compare the round trip
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  const iso = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  return { year, month, day, iso, ambiguous };
+}
+
+// monthFirst picks the US reading of numeric dates; the other order is the fallback
+export function parseDate(raw: string, monthFirst = false, now = new Date()): ParsedDate | null {
+  const text = raw.trim().toLowerCase().replace(/\s+/g, " ");
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) return build(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})$/);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? expandYear(+numeric[3], now) : +numeric[3];
+    const [first, second] = [+numeric[1], +numeric[2]];
+    const [month, day] = monthFirst ? [first, second] : [second, first];
+    const ambiguous = first !== second && first <= 12 && second <= 12;
+    return build(year, month, day, ambiguous) ?? build(year, day, month);
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)\.?,? (\d{4})$/);
+  if (dayFirst && MONTHS[dayFirst[2]]) return build(+dayFirst[3], MONTHS[dayFirst[2]], +dayFirst[1]);
+
+  const monthName = text.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})$/);
+  if (monthName && MONTHS[monthName[1]]) return build(+monthName[3], MONTHS[monthName[1]], +monthName[2]);
+
+  return null;
+}
+
+// Old enough to have an account or fill in a form, young enough to be alive. Chat
+// and log timestamps from the last few years fall outside this on purpose.
+export function isPlausibleBirthDate(date: ParsedDate, now = new Date()): boolean {
+  const age = now.getFullYear() - date.year;
+  return age >= 16 && age <= 110;
+}
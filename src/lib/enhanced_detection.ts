@@ -1,5 +1,12 @@
-import { debugPiiClassification } from "@/lib/pii";
+import { classifyPii, debugPiiClassification, findAddressBlocks, findCandidates, getActiveRecognizers, getRecognizer, recognizerLabel, type PiiType, type RecognizerOptions } from "@/lib/recognizers";
 import { unionBBoxes } from "@/lib/utils";
+import { findCustomRuleMatches, type RedactionMode } from "@/lib/customRules";
+import { combineConfidence, scoreMatch, type ConfidenceBreakdown } from "@/lib/confidence";
+import { BUILTIN_FIELD_LABELS, findLabeledValues, userFieldLabel, type LabeledValue } from "@/lib/fieldLabels";
+import { sanitize } from "@/lib/pii";
+import type { ScannedCode } from "@/lib/codes";
+import { payloadFields } from "@/lib/codes/payload";
+import type { AvatarRegion } from "@/lib/avatars";
 
 export interface OcrResult {
   width: number;
@@ -7,16 +14,20 @@ export interface OcrResult {
   scaleX: number;
   scaleY: number;
   lines: Array<{
-    words: Array<{ text: string; bbox: { x: number; y: number; w: number; h: number }; conf: number }>;
+    // `agreement` is how many preprocessing passes read the word this way, when several were fused
+    words: Array<{ text: string; bbox: { x: number; y: number; w: number; h: number }; conf: number; agreement?: number }>;
     joined: string;
     spans: Array<{ start: number; end: number; wordIdx: number }>;
     meanCharWidth: number;
   }>;
   piiCandidates?: Array<{ text: string; bbox: { x0: number; y0: number; x1: number; y1: number }; confidence: number }>;
+  // QR codes and barcodes decoded from the same image, boxes already scaled like detections
+  codes?: ScannedCode[];
+  // Profile pictures beside text lines, in the same coordinates as codes
+  avatars?: AvatarRegion[];
 }
 
-// Match your existing Detection type system
-export type PiiType = 'email' | 'url' | 'ipv4' | 'phone' | 'cc' | 'credit_card' | 'name'; // Include both CC aliases and 'name'
+export type { PiiType };
 
 export interface Detection {
   id: string;
@@ -24,11 +35,17 @@ export interface Detection {
   text: string;
   bbox: { x0: number; y0: number; x1: number; y1: number };
   confidence: number;
+  detail?: string;
+  redactAs?: RedactionMode;
+  breakdown?: ConfidenceBreakdown;
+  // Separate boxes for a match that wraps onto the next line; bbox is their union
+  rects?: Array<{ x0: number; y0: number; x1: number; y1: number }>;
 }
 
 export function processOcrForDetections(
   ocrResult: OcrResult,
-  minConfidence: number = 40
+  minConfidence: number = 40,
+  options: RecognizerOptions = {}
 ): Detection[] {
   const detections: Detection[] = [];
   
@@ -37,6 +54,13 @@ export function processOcrForDetections(
     console.log(`Processing ${ocrResult.lines.length} lines with min confidence ${minConfidence}%`);
   }
   
+  // Label/value pairs ("Password: ...", "Order #...") and the lines they sit on
+  const labeledValues = findLabeledValues(ocrResult.lines, [
+    ...BUILTIN_FIELD_LABELS,
+    ...(options.fieldLabels ?? []).filter(l => l.trim()).map(userFieldLabel),
+  ]);
+  const inlineFieldLines = new Set(labeledValues.filter(v => !v.stacked).map(v => v.labelLine));
+  
   // Process each line for PII - but be much more selective
   ocrResult.lines.forEach((line, lineIdx) => {
     const lineText = line.joined.trim();
@@ -47,68 +71,121 @@ export function processOcrForDetections(
     }
     
     // 1. Check entire line as single PII item - only if it's likely to be clean PII
-    const lineClassification = debugPiiClassification(lineText);
+    const lineClassification = debugPiiClassification(lineText, options);
     if (process.env.NODE_ENV === 'development') console.log(`Full line classification:`, lineClassification);
     
-    // Skip line detection if it contains "Email:" - we'll handle this specially
-    const skipLineDetection = lineText.toLowerCase().includes("email");
+    // Skip line detection on "Label: value" lines - the value is handled in step 4 without the label
+    const skipLineDetection = inlineFieldLines.has(lineIdx);
     
     if (lineClassification.type !== "other" && isHighQualityDetection(lineText, lineClassification.type) && !skipLineDetection) {
-      const wordBboxes = line.words.map(w => w.bbox);
-      const lineBbox = {
-        x0: Math.min(...wordBboxes.map(b => b.x)) * ocrResult.scaleX,
-        y0: Math.min(...wordBboxes.map(b => b.y)) * ocrResult.scaleY,
-        x1: Math.max(...wordBboxes.map(b => b.x + b.w)) * ocrResult.scaleX,
-        y1: Math.max(...wordBboxes.map(b => b.y + b.h)) * ocrResult.scaleY,
-      };
+      const lineBbox = lineBBox(line.words, ocrResult.scaleX, ocrResult.scaleY);
       
+      const recognizer = getRecognizer(lineClassification.type)!;
       const avgConfidence = line.words.reduce((sum, w) => sum + w.conf, 0) / line.words.length;
+      const { confidence, breakdown } = scoreMatch(recognizer, lineClassification.sanitized, avgConfidence, lineText, options);
+      // Other recognizers that would also have claimed the line, as a hint for the reviewer
+      const alsoMatched = Object.keys(lineClassification.checks).filter(
+        id => lineClassification.checks[id] && id !== lineClassification.type
+      );
+      breakdown.notes.push("whole line", ...(alsoMatched.length ? [`also looks like: ${alsoMatched.join(", ")}`] : []));
       
-      if (avgConfidence >= minConfidence) {
+      if (confidence >= minConfidence) {
         if (process.env.NODE_ENV === 'development') console.log(`✅ Adding line detection: ${lineClassification.type} - "${lineText}"`);
         detections.push({
           id: `line-${lineIdx}-${lineClassification.type}`,
           type: lineClassification.type,
           text: lineText,
           bbox: lineBbox,
-          confidence: avgConfidence,
+          confidence,
+          detail: recognizer.describe?.(lineClassification.sanitized, options),
+          breakdown,
         });
       }
     } else if (skipLineDetection) {
-      if (process.env.NODE_ENV === 'development') console.log(`⏭️ Skipping line detection for email line: "${lineText}"`);
+      if (process.env.NODE_ENV === 'development') console.log(`⏭️ Skipping line detection for field line: "${lineText}"`);
     }
     
     // 2. Look for specific high-quality PII patterns in the line
-    const piiMatches = findSpecificPiiInLine(lineText, line.words, ocrResult.scaleX, ocrResult.scaleY, minConfidence);
+    const piiMatches = findSpecificPiiInLine(lineText, line.words, ocrResult.scaleX, ocrResult.scaleY, minConfidence, options);
     piiMatches.forEach((match, idx) => {
       if (process.env.NODE_ENV === 'development') console.log(`✅ Adding specific detection: ${match.type} - "${match.text}"`);
-      detections.push({
-        id: `specific-${lineIdx}-${idx}-${match.type}`,
-        type: match.type,
-        text: match.text,
-        bbox: match.bbox,
-        confidence: match.confidence,
-      });
+      detections.push({ id: `specific-${lineIdx}-${idx}-${match.type}`, ...match });
     });
     
-    // 3. Special case: Look for email patterns in lines containing "Email"
-    if (lineText.toLowerCase().includes("email")) {
-      const emailMatch = extractEmailFromEmailLine(lineText, line.words, ocrResult.scaleX, ocrResult.scaleY, minConfidence);
-      if (emailMatch) {
-        console.log(`✅ Adding email from email line: "${emailMatch.text}"`);
+    // 3. User-defined terms and regexes
+    if (options.customRules?.length) {
+      findCustomRuleMatches(lineText, options.customRules).forEach((match, idx) => {
+        // The words under the match by their spans; without any, there is no box to redact
+        const start = match.index + line.joined.indexOf(lineText);
+        const matchWords = line.spans
+          .filter(span => span.end > start && span.start < start + match.text.length)
+          .map(span => line.words[span.wordIdx]);
+        if (matchWords.length === 0) return;
+        const avgConfidence = matchWords.reduce((sum, w) => sum + w.conf, 0) / matchWords.length;
+        // The user asked for these explicitly, so they count as fully validated
+        const breakdown: ConfidenceBreakdown = {
+          ocr: avgConfidence,
+          validator: 1,
+          specificity: getRecognizer("custom")?.specificity ?? 1,
+          context: false,
+          notes: [`custom rule: ${match.rule.label}`],
+        };
+        const confidence = combineConfidence(breakdown);
+        if (confidence < minConfidence) return;
         detections.push({
-          id: `email-line-${lineIdx}`,
-          type: "email",
-          text: emailMatch.text,
-          bbox: emailMatch.bbox,
-          confidence: emailMatch.confidence,
+          id: `custom-${lineIdx}-${idx}-${match.rule.id}`,
+          type: "custom",
+          text: match.text,
+          bbox: unionBBoxes(matchWords.map(w => ({
+            x0: w.bbox.x * ocrResult.scaleX,
+            y0: w.bbox.y * ocrResult.scaleY,
+            x1: (w.bbox.x + w.bbox.w) * ocrResult.scaleX,
+            y1: (w.bbox.y + w.bbox.h) * ocrResult.scaleY,
+          }))),
+          confidence,
+          detail: match.rule.label,
+          redactAs: match.rule.mode,
+          breakdown,
         });
-      }
+      });
     }
+    
   });
   
-  // 4. Smart deduplication - keep only the best detection for overlapping areas
-  const finalDetections = smartDeduplication(detections);
+  // 4. Values next to field labels, including stacked forms with the value on the next line
+  labeledValues.forEach((field, idx) => {
+    const detection = labeledValueDetection(field, ocrResult, options);
+    if (detection && detection.confidence >= minConfidence) {
+      if (process.env.NODE_ENV === 'development') console.log(`✅ Adding labeled value: ${field.label.label} - "${detection.text}"`);
+      detections.push({ id: `field-${field.labelLine}-${idx}`, ...detection });
+    }
+  });
+  
+  // 5. Emails and URLs broken across lines in narrow chat bubbles. A wrapped match
+  // replaces the fragment of it that the per-line scan may have found on either line.
+  const wrappedDetections = findWrappedMatches(ocrResult, minConfidence, options);
+  const lineDetections = detections.filter(d => !wrappedDetections.some(
+    w => w.type === d.type && w.rects!.some(r => overlapRatio([r], [d.bbox]) > 0.5)
+  ));
+  
+  // 6. Postal addresses spread over vertically adjacent lines. These go first so the
+  // block wins a confidence tie against a single line of the same address.
+  const addressDetections = findMultiLineAddresses(ocrResult, minConfidence);
+  
+  // 7. QR codes and barcodes, scored by what they decode to. Listed first so a code
+  // wins a tie against OCR noise read off its own modules.
+  const codeDetections = findCodeDetections(ocrResult.codes ?? [], minConfidence, options);
+  
+  // 8. Avatars beside chat messages. Initials drawn inside one can read as a name;
+  // the avatar covers them anyway.
+  const avatarDetections = findAvatarDetections(ocrResult.avatars ?? [], minConfidence);
+  
+  // 9. Smart deduplication - keep only the best detection for overlapping areas
+  const deduplicated = smartDeduplication([...codeDetections, ...avatarDetections, ...addressDetections, ...wrappedDetections, ...lineDetections]);
+  
+  // 10. Fused passes that agreed on a detection's words already raised their OCR
+  // confidence; record that in the breakdown
+  const finalDetections = noteAgreement(deduplicated, ocrResult);
   
   if (process.env.NODE_ENV === 'development') {
     console.log(`\n=== Final Results ===`);
@@ -125,32 +202,153 @@ export function processOcrForDetections(
 type OCRWord = { text: string; bbox: { x: number; y: number; w: number; h: number }; conf: number };
 type BBox = { x0: number; y0: number; x1: number; y1: number };
 
+function lineBBox(words: Array<OCRWord>, scaleX: number, scaleY: number): BBox {
+  const wordBboxes = words.map(w => w.bbox);
+  return {
+    x0: Math.min(...wordBboxes.map(b => b.x)) * scaleX,
+    y0: Math.min(...wordBboxes.map(b => b.y)) * scaleY,
+    x1: Math.max(...wordBboxes.map(b => b.x + b.w)) * scaleX,
+    y1: Math.max(...wordBboxes.map(b => b.y + b.h)) * scaleY,
+  };
+}
+
+// Addresses rarely fit on one OCR line, so score runs of adjacent lines and
+// emit one detection covering all of them
+function findMultiLineAddresses(ocrResult: OcrResult, minConfidence: number): Detection[] {
+  const lines = ocrResult.lines.filter(line => line.words.length > 0 && line.joined.trim());
+  const blocks = findAddressBlocks(
+    lines.map(line => ({ text: line.joined.trim(), bbox: lineBBox(line.words, ocrResult.scaleX, ocrResult.scaleY) }))
+  );
+  
+  const detections: Detection[] = [];
+  blocks.forEach((block) => {
+    // Single-line addresses are already handled by the whole-line classifier
+    if (block.lineIndices.length < 2) return;
+    const blockLines = block.lineIndices.map(i => lines[i]);
+    const words = blockLines.flatMap(line => line.words);
+    const avgConfidence = words.reduce((sum, w) => sum + w.conf, 0) / words.length;
+    const recognizer = getRecognizer("address");
+    const breakdown: ConfidenceBreakdown = {
+      ocr: avgConfidence,
+      // Every part of the address present counts as full validation
+      validator: block.complete ? 1 : block.score,
+      specificity: recognizer?.specificity ?? 0.5,
+      context: false,
+      notes: [`${block.lineIndices.length} lines`, block.complete ? "street, locality and postcode" : "partial address"],
+    };
+    const confidence = combineConfidence(breakdown);
+    if (confidence < minConfidence) return;
+    
+    if (process.env.NODE_ENV === 'development') console.log(`✅ Adding address block: "${block.text}" (${Math.round(confidence)}%)`);
+    detections.push({
+      id: `address-${ocrResult.lines.indexOf(blockLines[0])}`,
+      type: "address",
+      text: block.text,
+      bbox: unionBBoxes(blockLines.map(line => lineBBox(line.words, ocrResult.scaleX, ocrResult.scaleY))),
+      confidence,
+      breakdown,
+    });
+  });
+  return detections;
+}
+
+// Joins each line's last word with the first word of the line wrapped below it and
+// runs the in-line recognizers over the result. A token longer than a line fills
+// the next one entirely and wraps again, so the join follows it down. Only matches
+// that cross a join count; anything else was already found on its own line.
+function findWrappedMatches(ocrResult: OcrResult, minConfidence: number, options: RecognizerOptions): Detection[] {
+  const toBBox = (w: OCRWord): BBox => ({
+    x0: w.bbox.x * ocrResult.scaleX,
+    y0: w.bbox.y * ocrResult.scaleY,
+    x1: (w.bbox.x + w.bbox.w) * ocrResult.scaleX,
+    y1: (w.bbox.y + w.bbox.h) * ocrResult.scaleY,
+  });
+  const lines = ocrResult.lines.filter(line => line.words.length > 0);
+  const boxes = lines.map(line => lineBBox(line.words, ocrResult.scaleX, ocrResult.scaleY));
+  // Wrapped text continues on the next line down, starting at the same left edge
+  const lineBelow = (i: number): number => {
+    const box = boxes[i];
+    const height = box.y1 - box.y0;
+    let next = -1;
+    boxes.forEach((other, j) => {
+      if (j === i || other.y0 < box.y1 - height * 0.3 || other.y0 - box.y1 > height) return;
+      if (Math.abs(other.x0 - box.x0) > height * 2) return;
+      if (next < 0 || other.y0 < boxes[next].y0) next = j;
+    });
+    return next;
+  };
+  // A capitalised word or a clause break is the start of new text, not a continuation
+  const startsNewText = (tail: OCRWord, head: OCRWord) => /^\p{Lu}\p{Ll}/u.test(head.text) || /[,;!?)]$/.test(tail.text);
+  // Lines a wrap ran through whole; their own wraps were followed from above
+  const passedThrough = new Set<number>();
+  const detections: Detection[] = [];
+  
+  lines.forEach((line, i) => {
+    if (passedThrough.has(i)) return;
+    const parts: { word: OCRWord; line: number }[] = [{ word: line.words[line.words.length - 1], line: i }];
+    for (let current = i; ; ) {
+      const next = lineBelow(current);
+      if (next < 0 || parts.some(p => p.line === next)) break;
+      const head = lines[next].words[0];
+      if (startsNewText(parts[parts.length - 1].word, head)) break;
+      parts.push({ word: head, line: next });
+      if (lines[next].words.length > 1) break;
+      passedThrough.add(next);
+      current = next;
+    }
+    if (parts.length < 2) return;
+    
+    const tail = parts[0].word;
+    const head = parts[1].word;
+    const joined = parts.map(p => p.word.text).join("");
+    const offsets = parts.map((_, k) => parts.slice(0, k).reduce((sum, p) => sum + p.word.text.length, 0));
+    // Without one of these at the break, a line that already ends in a complete match
+    // wasn't wrapped - unless the match ends inside a URL path, which can break anywhere,
+    // or the next line reads like the rest of a host or token (e.g. "billing.ex" "ample.com/...")
+    const continues = /[/?#&=.\-_@]$/.test(tail.text) || /^[/?#&=.\-_@]/.test(head.text);
+    const resumes = /[\d/?#&=.\-_@:]/.test(head.text);
+    
+    getActiveRecognizers(options).forEach(recognizer => {
+      const isValid = (cleaned: string) => recognizer.validate?.(cleaned, options) ?? true;
+      const completeOnLine = !continues && findCandidates(recognizer, tail.text).some(raw =>
+        tail.text.endsWith(raw) && !/[^/:]\/[^/]/.test(raw) && isValid(recognizer.clean ? recognizer.clean(raw) : raw)
+      );
+      if (completeOnLine && !resumes) return;
+      for (const rawMatch of findCandidates(recognizer, joined)) {
+        const start = joined.indexOf(rawMatch);
+        if (start < 0) continue;
+        const end = start + rawMatch.length;
+        const spanned = parts.filter((p, k) => offsets[k] < end && offsets[k] + p.word.text.length > start);
+        if (spanned.length < 2) continue;
+        const cleanedMatch = recognizer.clean ? recognizer.clean(rawMatch) : rawMatch;
+        if (cleanedMatch.length < 3 || !isValid(cleanedMatch)) continue;
+        
+        const avgConfidence = spanned.reduce((sum, p) => sum + p.word.conf, 0) / spanned.length;
+        const lineText = spanned.map(p => lines[p.line].joined.trim()).join(" ");
+        const { confidence, breakdown, strong } = scoreMatch(recognizer, cleanedMatch, avgConfidence, lineText, options);
+        if (confidence < minConfidence && !strong) continue;
+        breakdown.notes.push(spanned.length > 2 ? `wraps across ${spanned.length} lines` : "wraps onto next line");
+        
+        const rects = spanned.map(p => toBBox(p.word));
+        detections.push({
+          id: `wrapped-${ocrResult.lines.indexOf(line)}-${recognizer.id}`,
+          type: recognizer.id,
+          text: cleanedMatch,
+          bbox: unionBBoxes(rects),
+          rects,
+          confidence,
+          detail: recognizer.describe?.(cleanedMatch, options),
+          breakdown,
+        });
+      }
+    });
+  });
+  return detections;
+}
+
 // Helper function to determine if a detection is high quality
 function isHighQualityDetection(text: string, type: string): boolean {
-  const cleanText = text.trim().replace(/\s+/g, "");
-  
-  switch (type) {
-    case "email":
-      // Must have @ and . with some reasonable structure
-      return cleanText.includes("@") && cleanText.includes(".") && cleanText.length >= 5 && !cleanText.startsWith("@");
-    case "url":
-      // Must have . and be reasonable length, OR start with http
-      return (cleanText.includes(".") && cleanText.length >= 4) || cleanText.toLowerCase().startsWith("http");
-    case "ipv4":
-      // Must be exactly 4 numbers separated by dots
-      const ipParts = cleanText.split(".");
-      return ipParts.length === 4 && ipParts.every(part => /^\d{1,3}$/.test(part) && parseInt(part) <= 255);
-    case "phone":
-      // Must have reasonable phone structure
-      const digits = cleanText.replace(/\D/g, "");
-      return digits.length >= 10 && digits.length <= 15;
-    case "cc":
-      // Must have reasonable credit card structure
-      const ccDigits = cleanText.replace(/\D/g, "");
-      return ccDigits.length >= 13 && ccDigits.length <= 19;
-    default:
-      return true;
-  }
+  return getRecognizer(type)?.isHighQuality?.(text) ?? true;
 }
 
 // Helper function to find specific PII patterns in a line
@@ -159,116 +357,51 @@ function findSpecificPiiInLine(
   words: Array<OCRWord>,
   scaleX: number,
   scaleY: number,
-  minConfidence: number
-): Array<{ type: PiiType; text: string; bbox: BBox; confidence: number }> {
-  const matches: Array<{ type: PiiType; text: string; bbox: BBox; confidence: number }> = [];
+  minConfidence: number,
+  options: RecognizerOptions
+): Array<Omit<Detection, "id">> {
+  const matches: Array<Omit<Detection, "id">> = [];
   
   // if (process.env.NODE_ENV === 'development') console.log(`Searching in cleaned text: "${lineText}"`);
   
-  // Define OCR-friendly patterns that handle spacing issues
-  const patterns: Array<{ type: PiiType; regex: RegExp; clean: (s: string) => string }> = [
-    { 
-      type: "email", 
-      // Handles: "john.doe@company.com", "john . doe @ company . com", etc.
-      regex: /([a-zA-Z0-9][a-zA-Z0-9._%-]*\s*[@]\s*[a-zA-Z0-9][a-zA-Z0-9.-]*\s*[.]\s*[a-zA-Z]{2,})/gi,
-      clean: (match: string) => {
-        // More sophisticated cleaning for emails
-        return match
-          .replace(/\s+/g, "") // Remove all spaces
-          .replace(/[^\w.@\-]/g, "") // Keep only alphanumeric, ., @, -
-          .replace(/[@]+/g, "@") // Ensure only one @
-          .replace(/[.]+/g, "."); // Ensure no double dots
-      }
-    },
-    { 
-      type: "url", 
-      // Handles: "https://example.com", "https : // example . com", etc.
-      regex: /((?:https?\s*[:;]\s*\/\s*\/\s*)?[a-zA-Z0-9][\w\-]*(?:\s*[.]\s*[a-zA-Z0-9][\w\-]*)+(?:\s*\/[^\s]*)?)/gi,
-      clean: (match: string) => {
-        // Clean URL by handling OCR artifacts
-        return match
-          .replace(/\s+/g, "") // Remove spaces
-          .replace(/[:;]\s*\/\s*\//g, "://") // Fix protocol
-          .replace(/\s*\.\s*/g, ".") // Fix dots
-          .replace(/[^a-zA-Z0-9\-._~:/?#[\]@!$&'()*+,;=%]/g, ""); // Keep URL-safe chars
-      }
-    },
-    { 
-      type: "ipv4", 
-      // Handles: "192.168.1.1", "192 . 168 . 1 . 1", etc.
-      regex: /(\d{1,3}\s*[.]\s*\d{1,3}\s*[.]\s*\d{1,3}\s*[.]\s*\d{1,3})/g,
-      clean: (match: string) => match.replace(/\s+/g, "")
-    },
-    { 
-      type: "phone", 
-      // Handles various phone formats with OCR artifacts
-      regex: /(\+?\s*[1]?\s*[-.\s\(]?\s*\d\s*\d\s*\d\s*[-.\s\)]?\s*\d\s*\d\s*\d\s*[-.\s]?\s*\d\s*\d\s*\d\s*\d)/gi,
-      clean: (match: string) => {
-        // Extract only digits and common phone separators
-        return match.replace(/[^0-9+\-\(\)\s]/g, "");
-      }
-    },
-    { 
-      type: "cc", // Changed from "credit_card" to match your system
-      // Handles: "4111 1111 1111 1111", "4111-1111-1111-1111", etc.
-      regex: /(\d\s*\d\s*\d\s*\d\s*[\s\-]?\s*\d\s*\d\s*\d\s*\d\s*[\s\-]?\s*\d\s*\d\s*\d\s*\d\s*[\s\-]?\s*\d\s*\d\s*\d\s*\d)/g,
-      clean: (match: string) => {
-        // Extract only digits for credit card validation
-        return match.replace(/\D/g, "");
-      }
-    }
-  ];
-  
-  patterns.forEach(pattern => {
-    let match;
-    
-    while ((match = pattern.regex.exec(lineText)) !== null) {
-      const rawMatch = match[1];
-      const cleanedMatch = pattern.clean(rawMatch);
+  // Every registered recognizer with an in-line candidate finder gets a pass over the line
+  getActiveRecognizers(options).forEach(recognizer => {
+    for (const rawMatch of findCandidates(recognizer, lineText)) {
+      const cleanedMatch = recognizer.clean ? recognizer.clean(rawMatch) : rawMatch;
       
       // Skip if cleaned match is too short
       if (cleanedMatch.length < 3) continue;
       
-      // if (process.env.NODE_ENV === 'development') console.log(`Found ${pattern.type} candidate: "${rawMatch}" -> "${cleanedMatch}"`);
-      
       // Validate the cleaned match
-      if (isOcrFriendlyMatch(cleanedMatch, pattern.type)) {
-        // Find words that are part of this match by looking for overlap
-        const matchWords = findWordsForMatch(rawMatch, words, lineText);
-        
-        if (matchWords.length > 0) {
-          // Convert word bboxes to standard format and apply scaling
-          const wordBboxes = matchWords.map(w => ({
-            x0: w.bbox.x * scaleX,
-            y0: w.bbox.y * scaleY,
-            x1: (w.bbox.x + w.bbox.w) * scaleX,
-            y1: (w.bbox.y + w.bbox.h) * scaleY,
-          }));
-          const bbox = unionBBoxes(wordBboxes);
-          
-          const avgConfidence = matchWords.reduce((sum, w) => sum + w.conf, 0) / matchWords.length;
-          
-          // Improved confidence scoring
-          let finalConfidence = avgConfidence;
-          if (isLowConfidenceButValid(cleanedMatch, pattern.type)) {
-            // Boost confidence for clearly valid matches but don't overdo it
-            finalConfidence = Math.min(95, Math.max(avgConfidence * 1.5, 70));
-          }
-          
-          if (finalConfidence >= minConfidence || isLowConfidenceButValid(cleanedMatch, pattern.type)) {
-            // if (process.env.NODE_ENV === 'development') console.log(`✅ Validated ${pattern.type}: "${cleanedMatch}"`);
-            matches.push({
-              type: pattern.type,
-              text: cleanedMatch,
-              bbox,
-              confidence: finalConfidence
-            });
-          } else {
-            // if (process.env.NODE_ENV === 'development') console.log(`❌ ${pattern.type} confidence too low: ${avgConfidence}% < ${minConfidence}%`);
-          }
-        }
-      } else {
-        // if (process.env.NODE_ENV === 'development') console.log(`❌ ${pattern.type} failed validation: "${cleanedMatch}"`);
+      if (!(recognizer.validate?.(cleanedMatch, options) ?? true)) continue;
+
+      // Find words that are part of this match by looking for overlap
+      const matchWords = findWordsForMatch(rawMatch, words, lineText);
+      if (matchWords.length === 0) continue;
+
+      // Convert word bboxes to standard format and apply scaling
+      const wordBboxes = matchWords.map(w => ({
+        x0: w.bbox.x * scaleX,
+        y0: w.bbox.y * scaleY,
+        x1: (w.bbox.x + w.bbox.w) * scaleX,
+        y1: (w.bbox.y + w.bbox.h) * scaleY,
+      }));
+      const bbox = unionBBoxes(wordBboxes);
+      
+      const avgConfidence = matchWords.reduce((sum, w) => sum + w.conf, 0) / matchWords.length;
+      
+      // OCR confidence blended with validator strength and pattern specificity
+      const { confidence: finalConfidence, breakdown, strong } = scoreMatch(recognizer, cleanedMatch, avgConfidence, lineText, options);
+      
+      if (finalConfidence >= minConfidence || strong) {
+        matches.push({
+          type: recognizer.id,
+          text: cleanedMatch,
+          bbox,
+          confidence: finalConfidence,
+          detail: recognizer.describe?.(cleanedMatch, options),
+          breakdown,
+        });
       }
     }
   });
@@ -280,10 +413,11 @@ function findSpecificPiiInLine(
 function findWordsForMatch(
   matchText: string, 
   words: Array<OCRWord>,
-  fullLineText: string
+  fullLineText: string,
+  knownStart?: number
 ): Array<OCRWord> {
-  // Find the approximate position of the match in the full line
-  const matchStart = fullLineText.toLowerCase().indexOf(matchText.toLowerCase().substring(0, 5));
+  // Find the approximate position of the match in the full line, unless the caller already knows it
+  const matchStart = knownStart ?? fullLineText.toLowerCase().indexOf(matchText.toLowerCase().substring(0, 5));
   if (matchStart === -1) return words; // Fallback to all words if we can't locate it
   
   // Find words that overlap with this text region
@@ -305,194 +439,158 @@ function findWordsForMatch(
   return matchWords.length > 0 ? matchWords : words.slice(0, Math.min(3, words.length));
 }
 
-// Helper function to allow low confidence but clearly valid PII
-function isLowConfidenceButValid(text: string, type: string): boolean {
-  switch (type) {
-    case "url":
-      // Allow common URLs even with low confidence
-      return text.includes("example.com") || text.includes("https://") || text.includes("www.");
-    case "ipv4":
-      // Allow valid IP addresses even with low confidence
-      const parts = text.split(".");
-      return parts.length === 4 && parts.every(part => {
-        const num = parseInt(part);
-        return !isNaN(num) && num >= 0 && num <= 255;
-      });
-    case "email":
-      // Allow valid emails even with low confidence
-      return text.includes("@") && text.includes(".") && text.length > 5;
-    case "cc": // Changed from "credit_card"
-      // Allow valid credit cards even with low confidence
-      const ccDigits = text.replace(/\D/g, "");
-      return ccDigits.length >= 13 && ccDigits.length <= 19;
-    default:
-      return false;
-  }
-}
+// The value of a label/value pair, reported as the label's hinted type when it
+// validates for it ("SSN" -> us_ssn) and as a generic labeled field otherwise
+function labeledValueDetection(
+  field: LabeledValue,
+  ocrResult: OcrResult,
+  options: RecognizerOptions
+): Omit<Detection, "id"> | null {
+  const words = field.valueWords.map(i => ocrResult.lines[field.valueLine].words[i]);
+  if (words.length === 0) return null;
+  const avgConfidence = words.reduce((sum, w) => sum + w.conf, 0) / words.length;
+  const bbox = unionBBoxes(words.map(w => ({
+    x0: w.bbox.x * ocrResult.scaleX,
+    y0: w.bbox.y * ocrResult.scaleY,
+    x1: (w.bbox.x + w.bbox.w) * ocrResult.scaleX,
+    y1: (w.bbox.y + w.bbox.h) * ocrResult.scaleY,
+  })));
+  const notes = [`label: ${field.label.label}`, ...(field.stacked ? ["value below label"] : [])];
 
-// More lenient validation for OCR-processed text
-function isOcrFriendlyMatch(text: string, type: string): boolean {
-  // console.log(`Validating ${type}: "${text}"`);
-  
-  switch (type) {
-    case "email":
-      // More comprehensive email validation with OCR fixes
-      const hasAt = text.includes("@");
-      const hasDot = text.includes(".");
-      const hasDomainPart = text.includes("@") && text.split("@")[1].includes(".");
-      const isLongEnough = text.length >= 5;
-      const hasValidStructure = hasAt && hasDot && hasDomainPart && isLongEnough && !text.startsWith("@");
-      
-      // Additional checks for common OCR issues
-      const noDoubleAt = (text.match(/@/g) || []).length === 1; // Only one @
-      const hasUsername = text.includes("@") && text.split("@")[0].length > 0;
-      const hasDomain = text.includes("@") && text.split("@")[1].length > 0;
-      
-      return hasValidStructure && noDoubleAt && hasUsername && hasDomain;
-      
-    case "url":
-      // Enhanced URL validation
-      const hasProtocolOrWww = text.toLowerCase().includes("http") || text.toLowerCase().includes("www.") || /\.(com|org|net|edu|gov|co|io|me)$/i.test(text);
-      const hasDotAndLength = text.includes(".") && text.length >= 4;
-      const isValidUrl = hasProtocolOrWww || hasDotAndLength;
-      
-      // More permissive - only exclude if it looks like an email
-      const notEmailLike = !(text.includes("@") && text.split("@")[0].length > 1);
-      
-      // Special case: allow common domains
-      const isCommonDomain = /\.(com|org|net|edu|gov|co|io|me|ly|tv)$/i.test(text);
-      
-      return (isValidUrl && notEmailLike) || isCommonDomain;
-      
-    case "ipv4":
-      const ipParts = text.split(".");
-      const has4Parts = ipParts.length === 4;
-      const allValidParts = ipParts.every(part => {
-        // Handle OCR artifacts like extra dots or spaces
-        const cleanPart = part.trim();
-        return /^\d{1,3}$/.test(cleanPart) && parseInt(cleanPart) <= 255;
-      });
-      return has4Parts && allValidParts;
-      
-    case "phone":
-      // Enhanced phone validation that handles OCR artifacts
-      const digitsOnly = text.replace(/\D/g, "");
-      const validLength = digitsOnly.length >= 7 && digitsOnly.length <= 15;
-      
-      // Additional pattern checks for common phone formats
-      const commonPatterns = [
-        /^\+?1?[-.\s]?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}$/, // US format
-        /^\+?[0-9]{1,3}[-.\s]?[0-9]{1,4}[-.\s]?[0-9]{1,4}[-.\s]?[0-9]{1,9}$/, // International
-        /^[0-9]{7,15}$/ // Just digits
-      ];
-      
-      const matchesPattern = commonPatterns.some(pattern => pattern.test(text));
-      
-      return validLength && (matchesPattern || digitsOnly.length >= 10);
-      
-    case "cc": // Changed from "credit_card"
-      // Credit card validation with OCR artifact handling
-      const ccDigits = text.replace(/\D/g, "");
-      const validCcLength = ccDigits.length >= 13 && ccDigits.length <= 19;
-      
-      // Quick Luhn check if we have enough digits
-      if (validCcLength && ccDigits.length >= 13) {
-        return luhnCheck(ccDigits);
-      }
-      
-      return validCcLength;
-      
-    default:
-      return true;
+  const value = field.label.repair?.(field.value) ?? field.value;
+  const hint = getActiveRecognizers(options).find(r => r.id === field.label.hint);
+  if (hint) {
+    const cleaned = hint.clean ? hint.clean(value) : sanitize(value);
+    if ((hint.validate ?? hint.classify)?.(cleaned, options)) {
+      const { confidence, breakdown } = scoreMatch(hint, cleaned, avgConfidence, `${field.label.label} ${value}`, options);
+      breakdown.notes.push(...notes);
+      return { type: hint.id, text: cleaned, bbox, confidence, detail: hint.describe?.(cleaned, options), breakdown };
+    }
   }
+
+  // The label is the evidence here: the value itself can be anything
+  const breakdown: ConfidenceBreakdown = {
+    ocr: avgConfidence,
+    validator: 0.7,
+    specificity: getRecognizer("field_value")?.specificity ?? 0.5,
+    context: true,
+    notes,
+  };
+  return { type: "field_value", text: sanitize(value), bbox, confidence: combineConfidence(breakdown), detail: field.label.label, breakdown };
 }
 
-// Simple Luhn algorithm implementation
-function luhnCheck(numStr: string): boolean {
-  let sum = 0;
-  let shouldDouble = false;
-  for (let i = numStr.length - 1; i >= 0; i--) {
-    let digit = parseInt(numStr.charAt(i), 10);
-    if (shouldDouble) {
-      digit *= 2;
-      if (digit > 9) digit -= 9;
+// Retail product numbers: nothing personal, though their digits can pass Luhn
+const PRODUCT_CODES = new Set<ScannedCode["format"]>(["EAN-13", "EAN-8", "UPC-A"]);
+
+// A code is one detection whatever it holds. Known payload formats (Wi-Fi,
+// otpauth, vCard, links with tokens) are split into fields; anything else is run
+// through the recognizers, so the panel can say what the code would leak.
+function findCodeDetections(codes: ScannedCode[], minConfidence: number, options: RecognizerOptions): Detection[] {
+  const detections: Detection[] = [];
+  codes.forEach((code, idx) => {
+    const fields = payloadFields(code.text);
+    const contents = new Set(fields.map(f => f.label));
+    if (fields.length > 0) {
+      for (const field of fields) {
+        const type = classifyPii(field.value, options);
+        if (type !== "other") contents.add(recognizerLabel(type));
+      }
+    } else if (!PRODUCT_CODES.has(code.format)) {
+      const type = classifyPii(code.text, options);
+      if (type !== "other") contents.add(recognizerLabel(type));
+      for (const recognizer of getActiveRecognizers(options)) {
+        for (const raw of findCandidates(recognizer, code.text)) {
+          const cleaned = recognizer.clean ? recognizer.clean(raw) : raw;
+          if (cleaned.length >= 3 && (recognizer.validate?.(cleaned, options) ?? true)) contents.add(recognizer.label);
+        }
+      }
     }
-    sum += digit;
-    shouldDouble = !shouldDouble;
-  }
-  return sum % 10 === 0;
+
+    const recognizer = getRecognizer(code.kind);
+    // Decoding passed error correction or a checksum, so the text itself is certain;
+    // how sensitive it is depends on what was found in it
+    const breakdown: ConfidenceBreakdown = {
+      ocr: 100,
+      validator: 1,
+      specificity: contents.size > 0 ? 1 : recognizer?.specificity ?? 0.5,
+      context: false,
+      notes: [`${code.format} decoded`, ...(contents.size > 0 ? [`contains: ${[...contents].join(", ")}`] : [])],
+    };
+    const confidence = combineConfidence(breakdown);
+    if (confidence < minConfidence) return;
+    detections.push({
+      id: `code-${idx}-${code.kind}`,
+      type: code.kind,
+      text: code.text,
+      bbox: code.bbox,
+      confidence,
+      detail: contents.size > 0 ? `${code.format} · ${[...contents].join(", ")}` : code.format,
+      breakdown,
+    });
+  });
+  return detections;
 }
 
-// Special function to extract email from lines like "Email: john.doe@company.com"
-// Special function to extract email from lines like "Email: john.doe@company.com"
-function extractEmailFromEmailLine(
-  lineText: string,
-  words: Array<OCRWord>,
-  scaleX: number,
-  scaleY: number,
-  minConfidence: number
-): { type: PiiType; text: string; bbox: BBox; confidence: number } | null {
-  console.log(`Trying to extract email from: "${lineText}"`);
-  
-  // Look for the specific pattern: "Email. john .doecompany . com"
-  // We want to extract: john@doecompany.com
-  const cleanLine = lineText.replace(/\s+/g, " ").trim();
-  
-  // Pattern to match: "Email. john .doecompany . com" 
-  // Capture: john, doecompany, com
-  const emailPattern = /email[.\s:]*([a-zA-Z0-9]+)[.\s]*([a-zA-Z0-9]+)[.\s]*[.]\s*([a-zA-Z]{2,})/i;
-  const match = cleanLine.match(emailPattern);
-  
-  if (match && match[1] && match[2] && match[3]) {
-    const username = match[1];     // "john"
-    const domain = match[2];       // "doecompany" 
-    const tld = match[3];          // "com"
-    
-    const extractedEmail = `${username}@${domain}.${tld}`;
-    console.log(`✅ Email pattern matched! Extracted: "${extractedEmail}" from groups:`, {
-      username, domain, tld, fullMatch: match[0]
+// One column of look-alike avatars is a conversation; a lone round shape beside
+// text could be any icon, so it scores below the default threshold
+function findAvatarDetections(avatars: AvatarRegion[], minConfidence: number): Detection[] {
+  const recognizer = getRecognizer("avatar");
+  const detections: Detection[] = [];
+  avatars.forEach((avatar, idx) => {
+    const breakdown: ConfidenceBreakdown = {
+      shape: avatar.roundness * 100,
+      validator: avatar.repeated ? 1 : 0.25,
+      specificity: recognizer?.specificity ?? 0.6,
+      context: false,
+      notes: [avatar.shape === "circle" ? "circular outline" : "rounded-square outline", ...(avatar.repeated ? ["repeated in a column"] : [])],
+    };
+    const confidence = combineConfidence(breakdown);
+    if (confidence < minConfidence) return;
+    detections.push({
+      id: `avatar-${idx}`,
+      type: "avatar",
+      text: avatar.shape === "circle" ? "Round avatar" : "Square avatar",
+      bbox: avatar.bbox,
+      confidence,
+      detail: avatar.repeated ? "profile picture, repeated" : "profile picture",
+      breakdown,
     });
-    
-    // Find words that are part of the email (more targeted)
-    const emailWords = words.filter(word => {
-      const wordText = word.text.toLowerCase().replace(/[^a-z0-9]/g, "");
-      return wordText === username.toLowerCase() || 
-             wordText === domain.toLowerCase() || 
-             wordText === tld.toLowerCase() ||
-             wordText.includes(username.toLowerCase()) ||
-             wordText.includes(domain.toLowerCase());
+  });
+  return detections;
+}
+
+// Adds how many fused passes read all of a detection's words alike to its breakdown
+function noteAgreement(detections: Detection[], ocrResult: OcrResult): Detection[] {
+  const words = ocrResult.lines.flatMap(line => line.words);
+  if (!words.some(w => (w.agreement ?? 1) > 1)) return detections;
+  return detections.map(d => {
+    if (!d.breakdown) return d;
+    const rects = d.rects ?? [d.bbox];
+    const covered = words.filter(w => {
+      const cx = (w.bbox.x + w.bbox.w / 2) * ocrResult.scaleX;
+      const cy = (w.bbox.y + w.bbox.h / 2) * ocrResult.scaleY;
+      return rects.some(r => cx >= r.x0 && cx <= r.x1 && cy >= r.y0 && cy <= r.y1);
     });
-    
-    if (emailWords.length > 0) {
-      const bbox: BBox = {
-        x0: Math.min(...emailWords.map(w => w.bbox.x)) * scaleX,
-        y0: Math.min(...emailWords.map(w => w.bbox.y)) * scaleY,
-        x1: Math.max(...emailWords.map(w => w.bbox.x + w.bbox.w)) * scaleX,
-        y1: Math.max(...emailWords.map(w => w.bbox.y + w.bbox.h)) * scaleY,
-      };
-      
-      const avgConfidence = emailWords.reduce((sum, w) => sum + w.conf, 0) / emailWords.length;
-      
-      // Accept emails with lower confidence
-      if (avgConfidence >= Math.min(minConfidence, 30)) {
-        console.log(`✅ Successfully extracted email: "${extractedEmail}" with ${emailWords.length} words, confidence ${avgConfidence}%`);
-        return {
-          type: "email" as PiiType,
-          text: extractedEmail,
-          bbox,
-          confidence: Math.max(avgConfidence, 70) // Boost confidence
-        };
-      } else {
-        console.log(`❌ Email confidence too low: ${avgConfidence}% < ${Math.min(minConfidence, 30)}%`);
-      }
-    } else {
-      console.log(`❌ No matching words found for email parts: ${username}, ${domain}, ${tld}`);
+    if (covered.length === 0) return d;
+    const passes = Math.min(...covered.map(w => w.agreement ?? 1));
+    if (passes < 2) return d;
+    return { ...d, breakdown: { ...d.breakdown, notes: [...d.breakdown.notes, `read alike by ${passes} passes`] } };
+  });
+}
+
+// Share of the smaller region covered by the other; regions may be several boxes
+function overlapRatio(a: BBox[], b: BBox[]): number {
+  const area = (r: BBox) => Math.max(0, r.x1 - r.x0) * Math.max(0, r.y1 - r.y0);
+  let overlapArea = 0;
+  for (const ra of a) {
+    for (const rb of b) {
+      const overlapX = Math.max(0, Math.min(ra.x1, rb.x1) - Math.max(ra.x0, rb.x0));
+      const overlapY = Math.max(0, Math.min(ra.y1, rb.y1) - Math.max(ra.y0, rb.y0));
+      overlapArea += overlapX * overlapY;
     }
-  } else {
-    console.log(`❌ No email pattern matched in: "${cleanLine}"`);
   }
-  
-  return null;
+  const sumArea = (rs: BBox[]) => rs.reduce((sum, r) => sum + area(r), 0);
+  return overlapArea / Math.min(sumArea(a), sumArea(b));
 }
 
 // Smart deduplication - keep the best detection for overlapping areas
@@ -501,20 +599,11 @@ function smartDeduplication(detections: Detection[]): Detection[] {
   const kept: Detection[] = [];
   
   for (const detection of sorted) {
-    const overlaps = kept.some(existing => {
-      // Check if bounding boxes overlap significantly
-      const overlapX = Math.max(0, Math.min(detection.bbox.x1, existing.bbox.x1) - Math.max(detection.bbox.x0, existing.bbox.x0));
-      const overlapY = Math.max(0, Math.min(detection.bbox.y1, existing.bbox.y1) - Math.max(detection.bbox.y0, existing.bbox.y0));
-      const overlapArea = overlapX * overlapY;
-      
-      const detectionArea = (detection.bbox.x1 - detection.bbox.x0) * (detection.bbox.y1 - detection.bbox.y0);
-      const existingArea = (existing.bbox.x1 - existing.bbox.x0) * (existing.bbox.y1 - existing.bbox.y0);
-      
-      const overlapRatio = overlapArea / Math.min(detectionArea, existingArea);
-      
-      // If more than 50% overlap, consider it a duplicate
-      return overlapRatio > 0.5;
-    });
+    // Wrapped matches compare box by box, so the gap between their lines doesn't swallow neighbours.
+    // If more than 50% overlap, consider it a duplicate
+    const overlaps = kept.some(existing =>
+      overlapRatio(detection.rects ?? [detection.bbox], existing.rects ?? [existing.bbox]) > 0.5
+    );
     
     if (!overlaps) {
       kept.push(detection);
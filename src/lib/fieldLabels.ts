@@ -0,0 +1,193 @@
+import type { RecognizerId } from "@/lib/recognizers/registry";
+
+// Label/value pairs in forms, receipts and account pages: "Password: hunter2",
+// "Order #A-1234", or a label with its value on the line below. The value is
+// sensitive because of the label, whether or not it matches a known pattern.
+
+export type FieldLabel = {
+  id: string;
+  label: string;
+  // Matches the label text; separators like ":" are handled by the scanner
+  pattern: RegExp;
+  // Recognizer to report the value as when it validates for that type
+  hint?: RecognizerId;
+  // Undoes OCR damage typical for this kind of value before it is validated
+  repair?: (value: string) => string;
+};
+
+export type FieldLine = {
+  words: Array<{ text: string; bbox: { x: number; y: number; w: number; h: number } }>;
+};
+
+export type LabeledValue = {
+  label: FieldLabel;
+  labelLine: number;
+  // Line holding the value: the label's own line, or the one below in stacked layouts
+  valueLine: number;
+  valueWords: number[];
+  value: string;
+  stacked: boolean;
+};
+
+// OCR often loses the "@": "Email. john .doecompany . com" -> "john@doecompany.com"
+function repairEmail(value: string): string {
+  if (value.includes("@")) return value;
+  const m = value.replace(/\s+/g, " ").trim().match(/^([\p{L}\p{M}\p{N}]+)[.\s]*([\p{L}\p{M}\p{N}]+)[.\s]*[.]\s*(\p{L}{2,})$/u);
+  return m ? `${m[1]}@${m[2]}.${m[3]}` : value;
+}
+
+export const BUILTIN_FIELD_LABELS: FieldLabel[] = [
+  { id: "email", label: "Email", pattern: /e-?mail(?:\s+address)?/i, hint: "email", repair: repairEmail },
+  { id: "password", label: "Password", pattern: /pass(?:word|wd|code)|pwd/i, hint: "secret" },
+  { id: "username", label: "Username", pattern: /user\s*(?:name|id)|login(?:\s+id)?/i },
+  { id: "customer_id", label: "Customer ID", pattern: /(?:customer|client|member)\s*(?:id|#|no\.?|number)/i },
+  { id: "account", label: "Account #", pattern: /(?:account|acct\.?)\s*(?:#|no\.?|number|id)?/i },
+  { id: "order", label: "Order", pattern: /order\s*(?:#|no\.?|number|id)?/i },
+  { id: "ssn", label: "SSN", pattern: /ssn|social\s+security(?:\s+(?:no\.?|number))?/i, hint: "us_ssn" },
+  { id: "address", label: "Address", pattern: /(?:(?:billing|shipping|home|mailing|street)\s+)?address/i, hint: "address" },
+];
+
+// Labels the user added in settings match literally, with flexible spacing
+export function userFieldLabel(text: string): FieldLabel {
+  const source = text
+    .trim()
+    .split(/\s+/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s*");
+  return { id: `user:${text.trim().toLowerCase()}`, label: text.trim(), pattern: new RegExp(source, "i") };
+}
+
+// ":" "#" "=" "-" or a full stop, between a label and its value
+const SEPARATOR = /^\s*(?:[:#=]|[-–](?=\s)|\.(?=\s))\s*/;
+
+type LabelHit = { label: FieldLabel; start: number; end: number; separated: boolean };
+
+// Word-aligned label occurrences in a line, longest label first where two overlap
+function findLabelHits(text: string, labels: FieldLabel[]): LabelHit[] {
+  const hits: LabelHit[] = [];
+  for (const label of labels) {
+    const re = new RegExp(`(?<![\\w@.])(?:${label.pattern.source})(?![\\w@])`, "gi");
+    for (const m of text.matchAll(re)) {
+      const sep = text.slice(m.index + m[0].length).match(SEPARATOR);
+      hits.push({ label, start: m.index, end: m.index + m[0].length + (sep?.[0].length ?? 0), separated: !!sep?.[0].trim() });
+    }
+  }
+  hits.sort((a, b) => a.start - b.start || b.end - a.end);
+  return hits.filter((hit, i) => !hits.slice(0, i).some((other) => other.start <= hit.start && hit.start < other.end));
+}
+
+// Line text with the character range of each word
+function layout(line: FieldLine): { text: string; ranges: Array<[number, number]> } {
+  const ranges: Array<[number, number]> = [];
+  let text = "";
+  line.words.forEach((word, i) => {
+    if (i > 0) text += " ";
+    ranges.push([text.length, text.length + word.text.length]);
+    text += word.text;
+  });
+  return { text, ranges };
+}
+
+const wordsInRange = (ranges: Array<[number, number]>, start: number, end: number) =>
+  ranges.flatMap(([s, e], i) => (e > start && s < end ? [i] : []));
+
+// Nearest line below within a couple of line heights that has words in the given column
+function lineBelow(lines: FieldLine[], from: number, x0: number, x1: number): number {
+  const words = lines[from].words;
+  const bottom = Math.max(...words.map((w) => w.bbox.y + w.bbox.h));
+  const height = Math.max(...words.map((w) => w.bbox.h));
+  let best = -1;
+  let bestTop = Infinity;
+  lines.forEach((line, i) => {
+    if (i === from || line.words.length === 0) return;
+    const top = Math.min(...line.words.map((w) => w.bbox.y));
+    if (top < bottom - height * 0.3 || top - bottom > height * 2) return;
+    if (!line.words.some((w) => w.bbox.x < x1 && w.bbox.x + w.bbox.w > x0)) return;
+    if (top < bestTop) {
+      best = i;
+      bestTop = top;
+    }
+  });
+  return best;
+}
+
+// Buttons and toggles drawn next to a field's value
+const UI_WORD = /^(?:show|hide|reveal|copy|edit|change|reset|update|remove|delete|manage|view|verify|verified|cancel|save)$/i;
+// A lowercase word, or one in parentheses like "(hidden)", as in a sentence or a note
+const PROSE_WORD = /^\(?\p{Ll}{2,}\)?[.,;:!?]?$/u;
+
+// How many of an inline value's words belong to it. Nothing but the next label
+// ends it on the line, so it also stops at a gap wider than word spacing, at
+// a UI word, or where a sentence resumes ("Order #123 shipped to ...") - unless
+// the word hangs off the one before it, as in "john .doecompany . com".
+function valueLength(words: FieldLine["words"], valueWords: number[]): number {
+  const chars = words.reduce((sum, w) => sum + w.text.length, 0) || 1;
+  const charWidth = words.reduce((sum, w) => sum + w.bbox.w, 0) / chars;
+  for (let i = 1; i < valueWords.length; i++) {
+    const prev = words[valueWords[i - 1]];
+    const word = words[valueWords[i]];
+    if (word.bbox.x - (prev.bbox.x + prev.bbox.w) > charWidth * 2.5) return i;
+    const bare = word.text.replace(/^\W+|\W+$/g, "");
+    if (UI_WORD.test(bare)) return i;
+    if (PROSE_WORD.test(word.text) && !/[.@\-_]$/.test(prev.text)) return i;
+  }
+  return valueWords.length;
+}
+
+export function findLabeledValues(lines: FieldLine[], labels: FieldLabel[] = BUILTIN_FIELD_LABELS): LabeledValue[] {
+  const out: LabeledValue[] = [];
+  const layouts = lines.map(layout);
+  const labelOnly = new Set<number>();
+
+  layouts.forEach(({ text, ranges }, lineIdx) => {
+    const hits = findLabelHits(text, labels);
+    if (hits.length === 0) return;
+
+    // Stacked form: a line of nothing but labels, each with its value underneath
+    const rest = hits.reduceRight((acc, hit) => acc.slice(0, hit.start) + acc.slice(hit.end), text);
+    if (!rest.trim()) {
+      labelOnly.add(lineIdx);
+      const words = lines[lineIdx].words;
+      hits.forEach((hit, i) => {
+        const labelWords = wordsInRange(ranges, hit.start, hit.end).map((w) => words[w]);
+        const height = Math.max(...labelWords.map((w) => w.bbox.h));
+        const x0 = labelWords[0].bbox.x - height;
+        const next = hits[i + 1] && words[wordsInRange(ranges, hits[i + 1].start, hits[i + 1].end)[0]];
+        const x1 = next ? next.bbox.x - height : Infinity;
+        const below = lineBelow(lines, lineIdx, x0, x1);
+        if (below < 0) return;
+        const column = lines[below].words
+          .map((w, idx) => ({ w, idx }))
+          .filter(({ w }) => w.bbox.x + w.bbox.w / 2 >= x0 && w.bbox.x + w.bbox.w / 2 < x1);
+        if (column.length === 0) return;
+        out.push({
+          label: hit.label,
+          labelLine: lineIdx,
+          valueLine: below,
+          valueWords: column.map(({ idx }) => idx),
+          value: column.map(({ w }) => w.text).join(" "),
+          stacked: true,
+        });
+      });
+      return;
+    }
+
+    // Inline: a label at the start of the line, or anywhere when a separator follows it
+    const accepted = hits.filter((hit) => hit.separated || hit.start === 0);
+    accepted.forEach((hit, i) => {
+      const end = accepted[i + 1]?.start ?? text.length;
+      // A label glued to its value ("Order#1234") shares its word box with the value
+      const candidates = wordsInRange(ranges, hit.end, hit.end + text.slice(hit.end, end).trimEnd().length);
+      if (candidates.length === 0) return;
+      const valueWords = candidates.slice(0, valueLength(lines[lineIdx].words, candidates));
+      const value = text.slice(hit.end, ranges[valueWords[valueWords.length - 1]][1]).trim();
+      if (!value) return;
+      // Without a separator, prose like "Order history" would look like a field
+      if (!hit.separated && !/[\d@]/.test(value)) return;
+      out.push({ label: hit.label, labelLine: lineIdx, valueLine: lineIdx, valueWords, value, stacked: false });
+    });
+  });
+
+  // A value line that is itself a line of labels belongs to the next form row
+  return out.filter((v) => !v.stacked || !labelOnly.has(v.valueLine));
+}
@@ -42,9 +42,9 @@ export function toGrayscale(data: ImageData): ImageData {
 }
 
 export function adjustContrastBrightness(data: ImageData, contrast = 1.2, brightness = 0): ImageData {
-  // contrast: 1.0 = no change; brightness: -255..255
+  // contrast: 1.0 = no change, stretching around mid-grey; brightness: -255..255
   const arr = data.data;
-  const factor = (259 * (contrast * 255 + 255)) / (255 * (259 - contrast * 255));
+  const factor = contrast;
   for (let i = 0; i < arr.length; i += 4) {
     arr[i] = clamp8(factor * (arr[i] - 128) + 128 + brightness);
     arr[i + 1] = clamp8(factor * (arr[i + 1] - 128) + 128 + brightness);
@@ -135,6 +135,187 @@ export function threshold(data: ImageData, t = 128): ImageData {
   return data;
 }
 
+// Global threshold that best separates the two luminance classes of the image
+// (Otsu's method). Expects grayscale data.
+export function otsuThreshold(data: ImageData): number {
+  const arr = data.data;
+  const hist = new Array<number>(256).fill(0);
+  for (let i = 0; i < arr.length; i += 4) hist[arr[i]]++;
+  const total = arr.length / 4;
+  let sumAll = 0;
+  for (let v = 0; v < 256; v++) sumAll += v * hist[v];
+  let below = 0;
+  let sumBelow = 0;
+  let best = 0;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    below += hist[t];
+    if (below === 0) continue;
+    const above = total - below;
+    if (above === 0) break;
+    sumBelow += t * hist[t];
+    const meanBelow = sumBelow / below;
+    const meanAbove = (sumAll - sumBelow) / above;
+    const variance = below * above * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t + 1;
+    }
+  }
+  return best;
+}
+
+// Local thresholding (Sauvola): each pixel is compared with the mean and
+// spread of the window around it, so panes with different backgrounds each
+// get their own threshold. Expects grayscale data.
+export function sauvolaBinarize(data: ImageData, radius = 15, k = 0.2): ImageData {
+  const { width, height } = data;
+  const arr = data.data;
+  const lum = new Uint8Array(width * height);
+  for (let p = 0; p < lum.length; p++) lum[p] = arr[p * 4];
+  // Column sums over the rows of the current window, slid down the image
+  const colSum = new Float64Array(width);
+  const colSq = new Float64Array(width);
+  const addRow = (y: number, sign: number) => {
+    for (let x = 0; x < width; x++) {
+      const v = lum[y * width + x];
+      colSum[x] += sign * v;
+      colSq[x] += sign * v * v;
+    }
+  };
+  for (let y = 0; y < Math.min(radius, height); y++) addRow(y, 1);
+  for (let y = 0; y < height; y++) {
+    if (y + radius < height) addRow(y + radius, 1);
+    if (y - radius - 1 >= 0) addRow(y - radius - 1, -1);
+    const rows = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1;
+    let sum = 0;
+    let sq = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) {
+      sum += colSum[x];
+      sq += colSq[x];
+    }
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) {
+        sum += colSum[x + radius];
+        sq += colSq[x + radius];
+      }
+      if (x - radius - 1 >= 0) {
+        sum -= colSum[x - radius - 1];
+        sq -= colSq[x - radius - 1];
+      }
+      const n = rows * (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+      const mean = sum / n;
+      const sd = Math.sqrt(Math.max(0, sq / n - mean * mean));
+      const t = mean * (1 + k * (sd / 128 - 1));
+      const o = (y * width + x) * 4;
+      arr[o] = arr[o + 1] = arr[o + 2] = lum[y * width + x] > t ? 255 : 0;
+    }
+  }
+  return data;
+}
+
+// Dark-mode handling. Tesseract reads dark text on a light background far
+// better than the reverse, so dark parts of the image are inverted first. The
+// image is judged in blocks whose median luminance is their background; dark
+// blocks joined into a large region are a dark pane (an IDE, a chat sidebar)
+// and are inverted, while a small one is a dark element on a light page (an
+// avatar, a button) and is left alone.
+const POLARITY_BLOCK = 16;
+// Background luminance below this is a dark theme
+const DARK_BACKGROUND = 110;
+// Blocks a dark region spans at least to be a pane
+const MIN_DARK_PANE = 32;
+// Share of a pane's blocks that are plain background, which a QR code or a photo never has
+const MIN_PLAIN_SHARE = 0.4;
+// Luminance spread (interquartile) of a block of plain background
+const PLAIN_SPREAD = 24;
+
+// Inverts the dark panes of grayscale data in place. `darkShare` is the share of
+// the image that was inverted: 0 for a light screenshot, 1 for a dark one, in
+// between for a mixed layout.
+export function normalizePolarity(data: ImageData): { data: ImageData; darkShare: number } {
+  const { width, height } = data;
+  const arr = data.data;
+  const cols = Math.ceil(width / POLARITY_BLOCK);
+  const rows = Math.ceil(height / POLARITY_BLOCK);
+  const background = new Uint8Array(cols * rows);
+  const plain = new Uint8Array(cols * rows);
+  const hist = new Uint32Array(256);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      hist.fill(0);
+      let count = 0;
+      for (let y = by * POLARITY_BLOCK; y < Math.min(height, (by + 1) * POLARITY_BLOCK); y++) {
+        for (let x = bx * POLARITY_BLOCK; x < Math.min(width, (bx + 1) * POLARITY_BLOCK); x++) {
+          hist[arr[(y * width + x) * 4]]++;
+          count++;
+        }
+      }
+      const [q1, median, q3] = quantiles(hist, count, [0.25, 0.5, 0.75]);
+      background[by * cols + bx] = median;
+      plain[by * cols + bx] = q3 - q1 <= PLAIN_SPREAD ? 1 : 0;
+    }
+  }
+
+  // A block mostly covered by a large light glyph takes its neighbours' verdict
+  const dark = new Uint8Array(cols * rows);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      let votes = 0;
+      let total = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = bx + dx;
+          const ny = by + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          total++;
+          if (background[ny * cols + nx] < DARK_BACKGROUND) votes++;
+        }
+      }
+      dark[by * cols + bx] = votes * 2 > total ? 1 : 0;
+    }
+  }
+
+  // 4-connected regions of dark blocks; the panes among them are inverted
+  const invert = new Uint8Array(cols * rows);
+  const seen = new Uint8Array(cols * rows);
+  let inverted = 0;
+  for (let start = 0; start < dark.length; start++) {
+    if (!dark[start] || seen[start]) continue;
+    const region: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const b = stack.pop()!;
+      region.push(b);
+      const bx = b % cols;
+      const neighbours = [bx > 0 ? b - 1 : -1, bx < cols - 1 ? b + 1 : -1, b - cols, b + cols];
+      for (const n of neighbours) {
+        if (n < 0 || n >= dark.length || !dark[n] || seen[n]) continue;
+        seen[n] = 1;
+        stack.push(n);
+      }
+    }
+    const plainBlocks = region.reduce((acc, b) => acc + plain[b], 0);
+    if (region.length < MIN_DARK_PANE || plainBlocks < region.length * MIN_PLAIN_SHARE) continue;
+    for (const b of region) invert[b] = 1;
+    inverted += region.length;
+  }
+  if (inverted === 0) return { data, darkShare: 0 };
+
+  for (let y = 0; y < height; y++) {
+    const rowBlocks = Math.floor(y / POLARITY_BLOCK) * cols;
+    for (let x = 0; x < width; x++) {
+      if (!invert[rowBlocks + Math.floor(x / POLARITY_BLOCK)]) continue;
+      const i = (y * width + x) * 4;
+      arr[i] = 255 - arr[i];
+      arr[i + 1] = 255 - arr[i + 1];
+      arr[i + 2] = 255 - arr[i + 2];
+    }
+  }
+  return { data, darkShare: inverted / (cols * rows) };
+}
+
 export function pipelineBasic(c: HTMLCanvasElement): { canvas: HTMLCanvasElement; scale: number } {
   // Ensure processing width between 1200 and 1600
   const targetWidth = clamp(Math.round(c.width), 1200, 1600);
@@ -142,6 +323,7 @@ export function pipelineBasic(c: HTMLCanvasElement): { canvas: HTMLCanvasElement
   const scale = proc.width / c.width; // proc to full-res scale factor numerator
   let data = getImageData(proc);
   data = toGrayscale(data);
+  data = normalizePolarity(data).data;
   data = medianFilter(data, 1);
   data = adjustContrastBrightness(data, 1.4, 10);
   data = unsharpMask(data, 2, 0.8);
@@ -155,9 +337,13 @@ export function pipelineHighContrast(c: HTMLCanvasElement): { canvas: HTMLCanvas
   const scale = proc.width / c.width;
   let data = getImageData(proc);
   data = toGrayscale(data);
+  const { darkShare } = normalizePolarity(data);
   data = adjustContrastBrightness(data, 1.8, 15);
   data = gaussianBlur(data, 1);
-  data = threshold(data, 140);
+  // One background throughout splits cleanly at a single threshold; a mixed layout
+  // leaves inverted panes in slightly different greys, so each area gets its own
+  const mixed = darkShare > 0 && darkShare < 1;
+  data = mixed ? sauvolaBinarize(data) : threshold(data, otsuThreshold(data));
   putImageData(proc, data);
   return { canvas: proc, scale };
 }
@@ -221,8 +407,9 @@ export function pipelineForPii(c: HTMLCanvasElement): { canvas: HTMLCanvasElemen
   const scale = proc.width / c.width;
   let data = getImageData(proc);
   
-  // Step 1: Convert to grayscale
+  // Step 1: Convert to grayscale, with dark-mode panes inverted to dark text on light
   data = toGrayscale(data);
+  data = normalizePolarity(data).data;
   
   // Step 2: Apply median filter to reduce noise
   data = medianFilter(data, 1);
@@ -310,6 +497,19 @@ function bilateralFilterLike(data: ImageData, radius: number): ImageData {
   return data;
 }
 
+// Values at the given fractions of a histogram holding `count` samples
+function quantiles(hist: Uint32Array, count: number, fractions: number[]): number[] {
+  const out: number[] = [];
+  let seen = 0;
+  let v = 0;
+  for (const f of fractions) {
+    const target = Math.max(1, Math.ceil(count * f));
+    while (v < 255 && seen + hist[v] < target) seen += hist[v++];
+    out.push(v);
+  }
+  return out;
+}
+
 function clamp(v: number, min: number, max: number) {
   return Math.max(min, Math.min(max, v));
 }
@@ -0,0 +1,269 @@
+// Offline gazetteer of given names and surnames used to score person-name
+// candidates. Small on purpose: common names across the locales our users
+// screenshot, not a census. Entries are lowercase; entries and lookups both fold
+// accents, so "Jose" and "José" match alike. Cyrillic and Greek names are listed
+// in their own script, which is how the OCR languages for them read them.
+
+// Accents are dropped letter by letter, so text in any script folds cleanly
+const fold = (s: string) => s.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+const GIVEN_NAMES = new Set(
+  (
+    // English
+    "james john robert michael william david richard joseph thomas charles christopher daniel matthew anthony " +
+    "donald steven paul andrew joshua kenneth kevin brian george timothy ronald edward jason jeffrey ryan jacob " +
+    "gary nicholas eric jonathan stephen larry justin scott brandon benjamin samuel gregory alexander patrick " +
+    "jack dennis jerry tyler aaron henry adam douglas nathan peter zachary kyle noah ethan jeremy walter " +
+    "christian keith roger terry austin sean gerald carl harold dylan arthur lawrence jordan jesse bryan " +
+    "billy bruce gabriel joe logan albert willie alan eugene russell vincent philip bobby johnny bradley " +
+    "mary patricia jennifer linda elizabeth barbara susan jessica sarah karen lisa nancy betty margaret " +
+    "sandra ashley kimberly emily donna michelle carol amanda melissa deborah stephanie rebecca sharon laura " +
+    "cynthia kathleen amy angela shirley anna brenda pamela emma nicole helen samantha katherine christine " +
+    "debra rachel carolyn janet catherine maria heather diane ruth julie olivia joyce virginia victoria " +
+    "kelly lauren christina joan evelyn judith megan andrea cheryl hannah jacqueline martha gloria teresa " +
+    "ann sara madison frances kathryn janice jean abigail alice judy sophia denise doris marilyn danielle " +
+    "beverly isabella theresa diana natalie brittany charlotte marie kayla alexis lori alex sam chris jane " +
+    "jenny kate katie liz beth tom tim mike dave dan ben nick matt jim bob ted steve tony jon ken " +
+    "oliver harry leo oscar archie freddie alfie charlie isla ava mia amelia lily poppy ella evie chloe " +
+    "liam lucas mason elijah logan aiden owen caleb isaac luke wyatt hudson zoe nora hazel aria layla " +
+    // Spanish, Portuguese, Italian
+    "jose juan luis carlos javier miguel antonio manuel francisco pedro alejandro diego pablo sergio jorge " +
+    "raul fernando ricardo andres mateo santiago carmen lucia sofia paula laura marta elena isabel pilar " +
+    "rosa ana beatriz valentina camila gabriela mariana daniela joao pedro tiago rafael gonçalo rodrigo " +
+    "giuseppe giovanni marco luca matteo alessandro francesco lorenzo andrea davide giulia chiara francesca " +
+    "federica alessia martina giorgia silvia " +
+    // German, Dutch, Nordic
+    "hans jurgen klaus wolfgang stefan andreas michael thomas uwe dieter lukas felix jonas maximilian " +
+    "paul leon finn niklas tim jan sven lars anders erik nils johan mikael henrik bjorn magnus ole " +
+    "anna lena lea hanna sophie marie katharina julia ursula sabine petra monika ingrid greta astrid " +
+    "sanne femke anouk daan bram sem thijs ruben " +
+    // French
+    "jean luc pierre jacques michel philippe alain nicolas francois louis antoine hugo theo mathieu julien " +
+    "sebastien guillaume olivier camille manon chloe ines lea juliette margaux celine nathalie isabelle " +
+    "sylvie veronique aurelie elodie " +
+    // Slavic, Greek, Turkish
+    "ivan dmitri sergei alexei vladimir andrei nikolai mikhail pavel olga natasha tatiana irina svetlana " +
+    "katarzyna agnieszka piotr krzysztof tomasz marek jakub nikos giorgos dimitris eleni mehmet mustafa " +
+    "ahmet emre ayse fatma zeynep elif " +
+    // Arabic, Persian, Hebrew
+    "mohammed muhammad mohamed ahmed ali omar hassan hussein khalid yusuf ibrahim abdullah karim tariq " +
+    "fatima aisha zainab mariam layla noor amira yasmin leila reza amir dariush shirin david yosef moshe " +
+    "avi noa tamar yael " +
+    // South Asian
+    "rahul amit raj vikram arjun rohan sanjay suresh ramesh anil ravi vijay deepak manoj ajay aditya " +
+    "priya pooja anjali neha sunita kavita divya ananya aishwarya lakshmi meera shreya riya " +
+    // East and Southeast Asian
+    "wei jing li ming hui yan xin lei jun hao yu chen ling mei xiao hiroshi takashi kenji yuki haruto " +
+    "sakura yui hana aoi ren sota minjun seojun jiwoo minji seoyeon jisoo hyun nguyen minh anh linh " +
+    "thanh tuan huong " +
+    // Cyrillic and Greek
+    "александр алексей андрей дмитрий иван михаил николай сергей владимир павел олег никита юрий " +
+    "анна мария елена ольга наталья татьяна ирина светлана екатерина юлия олександр тарас оксана " +
+    "георги иванка γιώργος γιάννης κώστας δημήτρης νίκος παναγιώτης μαρία ελένη σοφία κατερίνα"
+  ).split(/\s+/).map(fold)
+);
+
+const SURNAMES = new Set(
+  (
+    "smith johnson williams brown jones garcia miller davis rodriguez martinez hernandez lopez gonzalez " +
+    "wilson anderson thomas taylor moore jackson martin lee perez thompson white harris sanchez clark " +
+    "ramirez lewis robinson walker young allen king wright scott torres nguyen hill flores green adams " +
+    "nelson baker hall rivera campbell mitchell carter roberts gomez phillips evans turner diaz parker " +
+    "cruz edwards collins reyes stewart morris morales murphy cook rogers gutierrez ortiz morgan cooper " +
+    "peterson bailey reed kelly howard ramos kim cox ward richardson watson brooks chavez wood james " +
+    "bennett gray mendoza ruiz hughes price alvarez castillo sanders patel myers ross foster jimenez " +
+    "powell jenkins perry russell sullivan bell coleman butler henderson barnes fisher vasquez simmons " +
+    "graham murray ford hamilton griffin wallace west cole hayes bryant gibson ellis stevens fox " +
+    "o'brien obrien o'connor oconnor o'neill mcdonald mccarthy walsh byrne ryan kennedy doyle lynch " +
+    "jones davies evans thomas roberts hughes lewis morgan griffiths owen price " +
+    "muller mueller schmidt schneider fischer weber meyer wagner becker schulz hoffmann koch richter " +
+    "klein wolf schroder neumann schwarz zimmermann braun hartmann lange werner krause lehmann " +
+    "jong jansen vries dijk bakker visser smit meijer mulder bos vos peters hendriks dekker " +
+    "martin bernard dubois durand leroy moreau simon laurent lefebvre michel fournier girard bonnet " +
+    "dupont lambert fontaine rousseau vincent muller faure andre mercier blanc guerin " +
+    "rossi russo ferrari esposito bianchi romano colombo ricci marino greco bruno gallo conti " +
+    "fernandez gonzalez rodriguez sanchez perez martin gomez ruiz hernandez jimenez diaz moreno munoz " +
+    "alonso romero navarro torres dominguez vazquez ramos gil serrano blanco molina silva santos " +
+    "oliveira souza pereira costa ferreira almeida carvalho ribeiro " +
+    "andersson johansson karlsson nilsson eriksson larsson olsen hansen jensen nielsen pedersen " +
+    "kowalski nowak wisniewski wojcik kaminski lewandowski ivanov smirnov kuznetsov popov petrov " +
+    "volkov sokolov novak horvat papadopoulos yilmaz kaya demir sahin celik " +
+    "khan ahmed ali hussain rahman hassan ibrahim haddad nasser saleh cohen levi mizrahi friedman " +
+    "sharma singh kumar gupta verma reddy rao iyer nair menon joshi mehta shah desai chatterjee " +
+    "banerjee mukherjee das bose chopra kapoor malhotra agarwal " +
+    "wang li zhang liu chen yang huang zhao wu zhou xu zhu guo lin gao luo " +
+    "sato suzuki takahashi tanaka watanabe ito yamamoto nakamura kobayashi kato yoshida yamada " +
+    "park choi jung kang cho yoon jang lim tran pham hoang phan vu dang bui ngo " +
+    "иванов смирнов кузнецов попов петров волков соколов иванова смирнова петрова шевченко " +
+    "коваленко бондаренко παπαδόπουλος παπαδοπούλου παππάς οικονόμου"
+  ).split(/\s+/).map(fold)
+);
+
+// Given names that are just as often ordinary words, months ("Jan 15") or verbs
+const AMBIGUOUS_NAMES = new Set(
+  ("will may mark bill june april august rose grace hope faith joy art sunny summer dawn rich pat sue max " +
+    "jack frank grant chase miles hunter bob ray guy gene drew sky river page lane dean jan jun"
+  ).split(" ")
+);
+
+// Interface vocabulary that the old ProperCase heuristic mistook for names
+const UI_STOPLIST = new Set(
+  (
+    "sign in out up log login logout quick action actions settings setting home search profile account " +
+    "accounts new message messages inbox send sent reply forward delete cancel save edit view share help " +
+    "menu file tools window options more next back close open submit register dashboard overview " +
+    "notifications notification privacy terms contact contacts about total subtotal order orders invoice " +
+    "date time today yesterday tomorrow status active online offline admin user users team support " +
+    "the and of for to from with by your my our all none add remove update upload download create " +
+    "details detail billing shipping payment payments address email phone name password username " +
+    "customer id number details summary report reports page pages tab tabs button link links " +
+    "welcome hello hi hey thanks thank you please ok okay yes no continue start stop pause play " +
+    "general security display language preferences advanced system app apps store cart checkout " +
+    "monday tuesday wednesday thursday friday saturday sunday january february march july september " +
+    "october november december street road avenue city state country corp inc ltd llc company group"
+  ).split(/\s+/)
+);
+
+// Lowercase surname particles: "Anna de Vries", "Ludwig van Beethoven"
+const PARTICLES = new Set(["de", "van", "der", "den", "von", "da", "di", "del", "della", "dos", "du", "la", "le", "bin", "al"]);
+
+const HONORIFIC = /^(?:dr|mr|mrs|ms|miss|mx|prof|sir|dame|herr|frau|mme|mlle|sr|sra|srta|dott|dra)\.?$/i;
+const SUFFIX = /^(?:jr|sr|ii|iii|iv|phd|md|esq)\.?$/i;
+
+const isInitial = (w: string) => /^\p{L}\.?$/u.test(w);
+const isProperCase = (w: string) => /^\p{Lu}\p{Ll}*(?:['’\-]?\p{Lu}?\p{Ll}+)*$/u.test(w) && /\p{Ll}/u.test(w);
+const isUpper = (w: string) => w === w.toUpperCase() && w !== w.toLowerCase();
+const isLower = (w: string) => w === w.toLowerCase() && w !== w.toUpperCase();
+
+export type NameScore = {
+  score: number;
+  given: boolean;
+  surname: boolean;
+  honorific: boolean;
+};
+
+// Scores how likely `text` is a person's name, 0-1. Accepts "John Smith",
+// "john smith", "JOHN SMITH", "Smith, John", "Dr. Priya Patel" and lone first names.
+export function scoreName(text: string): NameScore {
+  const none: NameScore = { score: 0, given: false, surname: false, honorific: false };
+  let cleaned = text.normalize("NFC").replace(/[^\p{L}'’.,\-\s]/gu, " ").replace(/\s+/g, " ").trim();
+
+  // "Smith, John" -> "John Smith"
+  let reordered = false;
+  const comma = cleaned.match(/^([^,]+),\s*([^,]+)$/);
+  if (comma) {
+    cleaned = `${comma[2]} ${comma[1]}`;
+    reordered = true;
+  } else if (cleaned.includes(",")) {
+    return none;
+  }
+
+  let tokens = cleaned.split(" ").filter(Boolean);
+  const honorific = tokens.length > 1 && HONORIFIC.test(tokens[0]);
+  if (honorific) tokens = tokens.slice(1);
+  while (tokens.length > 1 && SUFFIX.test(tokens[tokens.length - 1])) tokens = tokens.slice(0, -1);
+  if (tokens.length === 0 || tokens.length > 4) return none;
+
+  const folded = tokens.map((t) => fold(t.replace(/\.$/, "")));
+  if (folded.some((t) => UI_STOPLIST.has(t))) return none;
+
+  // Names are written consistently: all ProperCase, all lower or all upper
+  const words = tokens.filter((t, i) => !isInitial(t) && !(i > 0 && PARTICLES.has(t)));
+  if (words.length === 0) return none;
+  const allLower = words.every(isLower);
+  const allUpper = words.every(isUpper);
+  if (!allLower && !allUpper && !words.every(isProperCase)) return none;
+
+  const first = folded[0];
+  const last = folded[folded.length - 1];
+  // Hyphenated first names count when every part is known ("Jean-Luc", "Anna-Lena")
+  const given = GIVEN_NAMES.has(first) || first.split("-").every((part) => GIVEN_NAMES.has(part));
+  const ambiguous = AMBIGUOUS_NAMES.has(first);
+  const surname = tokens.length > 1 && SURNAMES.has(last);
+
+  let score: number;
+  if (tokens.length === 1) {
+    // Lone words: chat senders ("Alice") or "Dr. Patel"
+    if (honorific) score = SURNAMES.has(first) || GIVEN_NAMES.has(first) ? 0.85 : 0.6;
+    // Beside a day or year ("Leo 2", "Jun 2024") it reads as a month or a label; a time ("Priya 10:42") doesn't
+    else if (/(?<![\d:])\d{1,4}(?![\d:])/.test(text)) score = 0;
+    // "li", "jo": too short to tell from a syllable or an abbreviation
+    else if (first.length <= 2) score = 0;
+    else score = given && !ambiguous ? 0.75 : 0;
+  } else {
+    score = given ? (ambiguous ? 0.35 : 0.6) : SURNAMES.has(first) ? 0.3 : 0.1;
+    if (surname) score += 0.4;
+    else if (GIVEN_NAMES.has(last)) score += 0.25;
+    else if (!isInitial(tokens[tokens.length - 1])) score += 0.2;
+    // Middle tokens should be initials or names themselves
+    for (let i = 1; i < tokens.length - 1; i++) {
+      if (isInitial(tokens[i]) || PARTICLES.has(folded[i])) continue;
+      if (!GIVEN_NAMES.has(folded[i]) && !SURNAMES.has(folded[i])) score -= 0.15;
+    }
+    if (honorific) score += 0.3;
+    if (reordered && given) score += 0.1;
+  }
+
+  // Lowercase text has lost the capitalisation evidence, uppercase headers slightly less so
+  if (allLower) score *= 0.9;
+  else if (allUpper) score *= 0.95;
+
+  return { score: Math.max(0, Math.min(1, score)), given, surname, honorific };
+}
+
+const NAME_TOKEN = /\p{L}[\p{L}\p{M}'’\-]*\.?/gu;
+
+// A label right before a name: "Name: lily chen", "Contact - mason"
+const NAME_LABEL = /\b(?:name|contact|sender|recipient)\s*[:#-]?\s*$/i;
+
+// Lowercase text has lost the capital that marks a name, so a gazetteer word in
+// it ("asked lily about the mason jar") needs a second name word beside it or a
+// name label before it. `before` is the line text ahead of the candidate.
+export function hasNameEvidence(candidate: string, before = ""): boolean {
+  const tokens = candidate.split(/\s+/).filter(Boolean);
+  if (tokens.some((t) => /^\p{Lu}/u.test(t))) return true;
+  const known = tokens.filter((t) => {
+    const f = fold(t.replace(/\.$/, ""));
+    return GIVEN_NAMES.has(f) || SURNAMES.has(f);
+  });
+  return known.length >= 2 || NAME_LABEL.test(before);
+}
+
+// Runs of one to four words starting at a known given name or honorific,
+// for names embedded in longer lines ("Message from Jane Doe at 10:42")
+export function findNameCandidates(lineText: string, minScore = 0.5): string[] {
+  const tokens = [...lineText.matchAll(NAME_TOKEN)].map((m) => ({ text: m[0], start: m.index ?? 0 }));
+  const out: string[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const head = fold(tokens[i].text.replace(/\.$/, ""));
+    if (!GIVEN_NAMES.has(head) && !HONORIFIC.test(tokens[i].text)) {
+      i++;
+      continue;
+    }
+    // Longest run that still scores as a name, contiguous in the source text
+    let best: { end: number; text: string } | undefined;
+    for (let j = i; j < Math.min(tokens.length, i + 4); j++) {
+      if (j > i) {
+        const gap = lineText.slice(tokens[j - 1].start + tokens[j - 1].text.length, tokens[j].start);
+        if (!/^\s+$/.test(gap)) break;
+      }
+      const candidate = lineText.slice(tokens[i].start, tokens[j].start + tokens[j].text.length).replace(/\.$/, "");
+      const before = lineText.slice(0, tokens[i].start);
+      if (scoreName(candidate).score >= minScore && hasNameEvidence(candidate, before)) best = { end: j, text: candidate };
+    }
+    // A lone name beside a day or year is a month more often than a person: "Jan 15", "3 Jun"
+    if (best && best.end === i) {
+      const before = lineText.slice(0, tokens[i].start);
+      const after = lineText.slice(tokens[i].start + tokens[i].text.length);
+      if (/(?<![\d:])\d{1,4}[\s,./-]*$/.test(before) || /^[\s,./-]*\d{1,4}(?![\d:])/.test(after)) best = undefined;
+    }
+    if (best) {
+      out.push(best.text);
+      i = best.end + 1;
+    } else {
+      i++;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,198 @@
+// Client-side bridge to the OCR workers. Keeps a pool of Workers sized from
+// the machine's cores, gives each request a worker of its own (queueing the
+// rest until one is free) and routes each reply and progress event to the
+// request with the same id; see lib/ocr/protocol for the messages.
+
+import { devLog } from "@/lib/dev";
+import type { OcrMethod, OcrMethods, OcrProgress, OcrRequest, OcrResponse } from "@/lib/ocr/protocol";
+
+export type RequestOptions = {
+  // Aborting cancels the request in the worker and rejects with an AbortError
+  signal?: AbortSignal;
+  // Cancels the request and rejects with a TimeoutError after this long
+  timeoutMs?: number;
+  onProgress?: (progress: OcrProgress) => void;
+};
+
+type Pending = {
+  resolve: (result: unknown) => void;
+  reject: (err: unknown) => void;
+  onProgress?: (progress: OcrProgress) => void;
+};
+
+// Each Worker holds its own Tesseract instance, a few tens of MB, so the pool stays small
+const MAX_POOL_SIZE = 4;
+
+type PoolWorker = { worker: Worker; pending: Map<string, Pending> };
+
+const pool: PoolWorker[] = [];
+// Requests waiting for a free worker, woken in order
+const waiting: Array<() => void> = [];
+
+// One core is left for the page itself
+export function ocrPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+function genId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `req_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function spawnWorker(): PoolWorker {
+  if (typeof window === "undefined") {
+    throw new Error("OCR worker can only be used in the browser");
+  }
+  // Create a module worker referencing the TS source; Next/Turbopack resolves this via bundler URL handling.
+  const worker = new Worker(new URL("../../workers/ocrWorker.ts", import.meta.url), { type: "module" });
+  const entry: PoolWorker = { worker, pending: new Map() };
+
+  worker.onmessage = (ev: MessageEvent<OcrResponse>) => {
+    const data = ev.data;
+    const request = entry.pending.get(data.id);
+    if (!request) return; // cancelled, timed out or unknown
+    if (data.type === "progress") {
+      request.onProgress?.(data.progress);
+    } else if (data.type === "result") {
+      request.resolve(data.result);
+    } else {
+      request.reject(data.cancelled ? new DOMException(data.error, "AbortError") : new Error(data.error));
+    }
+  };
+
+  // A crashed worker can't answer anything in flight; it leaves the pool and a fresh one takes its place on demand
+  worker.onerror = (ev) => retireWorker(entry, new Error(ev.message || "OCR worker error"));
+  worker.onmessageerror = () => retireWorker(entry, new Error("OCR worker message deserialization error"));
+
+  pool.push(entry);
+  return entry;
+}
+
+// The idle worker if there is one, else a new one while the pool has room
+function idleWorker(): PoolWorker | null {
+  const idle = pool.find((w) => w.pending.size === 0);
+  if (idle) return idle;
+  return pool.length < ocrPoolSize() ? spawnWorker() : null;
+}
+
+// Resolves when a worker may have come free; the caller then tries again
+function waitForWorker(signal?: AbortSignal): Promise<void> {
+  // An already-aborted signal never fires "abort", so the wait would outlive it
+  if (signal?.aborted) return Promise.reject(signal.reason ?? new DOMException("OCR cancelled", "AbortError"));
+  return new Promise<void>((resolve, reject) => {
+    const wake = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      const idx = waiting.indexOf(wake);
+      if (idx >= 0) waiting.splice(idx, 1);
+      reject(signal?.reason ?? new DOMException("OCR cancelled", "AbortError"));
+    };
+    waiting.push(wake);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function wakeNext() {
+  waiting.shift()?.();
+}
+
+function retireWorker(entry: PoolWorker, reason: unknown) {
+  const idx = pool.indexOf(entry);
+  if (idx >= 0) pool.splice(idx, 1);
+  try { entry.worker.terminate(); } catch {}
+  // Reject any outstanding requests to avoid hanging promises.
+  for (const p of [...entry.pending.values()]) p.reject(reason);
+  entry.pending.clear();
+  // Its place in the pool can be taken by a fresh worker
+  wakeNext();
+}
+
+export function isCancelled(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Waits its turn when every worker is busy, so a queued request's timeout only starts once it runs
+export function requestOcr<M extends OcrMethod>(
+  method: M,
+  params: OcrMethods[M]["params"],
+  opts: RequestOptions = {}
+): Promise<OcrMethods[M]["result"]> {
+  const worker = idleWorker();
+  if (worker) return sendRequest(worker, method, params, opts);
+  return waitForWorker(opts.signal).then(() => requestOcr(method, params, opts));
+}
+
+// Loads the languages into every worker of the pool, the first one alone so
+// the others find the language data already cached by the browser
+export async function initOcrPool(languages: string[], opts: RequestOptions = {}): Promise<void> {
+  const { onProgress } = opts;
+  while (pool.length < ocrPoolSize()) spawnWorker();
+  const workers = [...pool];
+  const loaded = workers.map(() => 0);
+  const report = (idx: number) => (progress: OcrProgress) => {
+    loaded[idx] = progress.progress;
+    onProgress?.({ stage: "loading", progress: loaded.reduce((a, b) => a + b, 0) / loaded.length });
+  };
+  await sendRequest(workers[0], "init", { languages }, { ...opts, onProgress: report(0) });
+  await Promise.all(workers.slice(1).map((w, i) => sendRequest(w, "init", { languages }, { ...opts, onProgress: report(i + 1) })));
+}
+
+function sendRequest<M extends OcrMethod>(
+  target: PoolWorker,
+  method: M,
+  params: OcrMethods[M]["params"],
+  opts: RequestOptions
+): Promise<OcrMethods[M]["result"]> {
+  const { signal, timeoutMs, onProgress } = opts;
+  if (signal?.aborted) return Promise.reject(signal.reason ?? new DOMException("OCR cancelled", "AbortError"));
+
+  const { worker, pending } = target;
+  const id = genId();
+  const t0 = typeof performance !== "undefined" ? performance.now() : Date.now();
+
+  return new Promise<OcrMethods[M]["result"]>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settle = () => {
+      pending.delete(id);
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      wakeNext();
+    };
+    // The worker stops at its next checkpoint; the caller doesn't wait for it
+    const cancel = (reason: unknown) => {
+      settle();
+      worker.postMessage({ id: genId(), method: "cancel", params: { target: id } } satisfies OcrRequest);
+      reject(reason);
+    };
+    const onAbort = () => cancel(signal?.reason ?? new DOMException("OCR cancelled", "AbortError"));
+
+    pending.set(id, {
+      resolve: (result) => {
+        settle();
+        const t1 = typeof performance !== "undefined" ? performance.now() : Date.now();
+        devLog(`[ocr] ${method} ${(t1 - t0).toFixed(1)}ms`);
+        resolve(result as OcrMethods[M]["result"]);
+      },
+      reject: (err) => {
+        settle();
+        reject(err);
+      },
+      onProgress,
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (timeoutMs) {
+      timer = setTimeout(() => cancel(new DOMException(`OCR ${method} timed out after ${Math.round(timeoutMs / 1000)}s`, "TimeoutError")), timeoutMs);
+    }
+
+    worker.postMessage({ id, method, params } as OcrRequest);
+  });
+}
+
+export function disposeOcrWorkers(reason: unknown = new Error("OCR worker disposed")): void {
+  for (const entry of [...pool]) retireWorker(entry, reason);
+}
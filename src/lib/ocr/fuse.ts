@@ -0,0 +1,163 @@
+// Fuses the OCR of several preprocessing passes of one image. Words the passes
+// read at the same place are aligned by box overlap, the text of each is voted
+// on with the readings' confidence as weight, and a word only one pass found
+// is kept too, so a token read correctly by any pass survives.
+
+import type { OcrResult } from "@/lib/enhanced_detection";
+import { buildLine, type OcrWord } from "@/lib/ocr/lines";
+
+// Readings of one word by two passes cover about the same box
+const MATCH_IOU = 0.5;
+// Words overlapping by this share of the smaller one are the same text split
+// or joined differently (e.g. "a@b.com" against "a@" "b.com")
+const CONFLICT_OVERLAP = 0.3;
+// Added to a word's OCR confidence for each further pass that read it the same way
+const AGREEMENT_BONUS = 8;
+// Height of the rows words are bucketed into for the overlap searches
+const ROW = 16;
+
+type Box = OcrWord["bbox"];
+type Reading = { word: OcrWord; pass: number; line: number };
+// `order` is when the cluster was first read, passes and lines in sequence
+type Cluster = { readings: Reading[]; fused: OcrWord; support: number; order: number };
+
+// All results must be in the same image coordinates (see scaleOcrResult); the
+// fused result is in those coordinates with a scale of 1
+export function fuseOcrResults(results: OcrResult[]): OcrResult {
+  const first = results[0];
+  const clusters: Cluster[] = [];
+  const grid = rowGrid<Cluster>();
+
+  results.forEach((ocr, pass) => {
+    ocr.lines.forEach((line, lineIdx) => {
+      for (const w of line.words) {
+        if (!w.text.trim()) continue;
+        const word = { ...w, bbox: { x: w.bbox.x * ocr.scaleX, y: w.bbox.y * ocr.scaleY, w: w.bbox.w * ocr.scaleX, h: w.bbox.h * ocr.scaleY } };
+        let best: Cluster | null = null;
+        let bestIoU = MATCH_IOU;
+        for (const c of grid.near(word.bbox)) {
+          if (c.readings.some((r) => r.pass === pass)) continue;
+          // Against the closest reading so far, so the order of the passes doesn't matter
+          const iou = Math.max(...c.readings.map((r) => boxIoU(r.word.bbox, word.bbox)));
+          if (iou >= bestIoU) {
+            best = c;
+            bestIoU = iou;
+          }
+        }
+        const reading = { word, pass, line: lineIdx };
+        const cluster = best ?? { readings: [], fused: word, support: 0, order: clusters.length };
+        if (!best) clusters.push(cluster);
+        cluster.readings.push(reading);
+        grid.add(word.bbox, cluster);
+      }
+    });
+  });
+  clusters.forEach(vote);
+
+  // Where the passes segmented the same text differently, the better supported reading wins
+  const accepted: Cluster[] = [];
+  const acceptedGrid = rowGrid<Cluster>();
+  for (const c of [...clusters].sort((a, b) => b.support - a.support)) {
+    const box = c.fused.bbox;
+    const conflicts = acceptedGrid.near(box).some((o) => {
+      const smaller = Math.max(1, Math.min(box.w * box.h, o.fused.bbox.w * o.fused.bbox.h));
+      return intersection(o.fused.bbox, box) / smaller > CONFLICT_OVERLAP;
+    });
+    if (conflicts) continue;
+    accepted.push(c);
+    acceptedGrid.add(c.fused.bbox, c);
+  }
+
+  // Words any pass put on one line stay on one line
+  const parent = accepted.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const lineOwner = new Map<string, number>();
+  accepted.forEach((c, i) => {
+    for (const r of c.readings) {
+      const key = `${r.pass}:${r.line}`;
+      const owner = lineOwner.get(key);
+      if (owner === undefined) lineOwner.set(key, i);
+      else parent[find(i)] = find(owner);
+    }
+  });
+  // Lines keep the reading order of the first pass that has them
+  const groups = new Map<number, { order: number; words: OcrWord[] }>();
+  accepted.forEach((c, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (!group) groups.set(root, { order: c.order, words: [c.fused] });
+    else {
+      group.words.push(c.fused);
+      group.order = Math.min(group.order, c.order);
+    }
+  });
+  const lines = [...groups.values()]
+    .sort((a, b) => a.order - b.order)
+    .map(({ words }) => {
+      const x0 = Math.min(...words.map((w) => w.bbox.x));
+      const x1 = Math.max(...words.map((w) => w.bbox.x + w.bbox.w));
+      return buildLine(words, x1 - x0);
+    });
+
+  return { width: first.width * first.scaleX, height: first.height * first.scaleY, scaleX: 1, scaleY: 1, lines };
+}
+
+// The text with the most confidence behind it; its confidence is the mean of
+// the readings that agree on it, raised for each pass beyond the first
+function vote(c: Cluster) {
+  const tally = new Map<string, Reading[]>();
+  for (const r of c.readings) {
+    const text = r.word.text.trim();
+    tally.set(text, [...(tally.get(text) ?? []), r]);
+  }
+  let winners: Reading[] = [];
+  let support = -1;
+  for (const readings of tally.values()) {
+    const weight = readings.reduce((sum, r) => sum + Math.max(1, r.word.conf), 0);
+    if (weight > support) {
+      winners = readings;
+      support = weight;
+    }
+  }
+  const best = winners.reduce((a, b) => (b.word.conf > a.word.conf ? b : a));
+  const meanConf = winners.reduce((sum, r) => sum + r.word.conf, 0) / winners.length;
+  c.fused = {
+    ...best.word,
+    conf: Math.min(99, meanConf + AGREEMENT_BONUS * (winners.length - 1)),
+    agreement: winners.length,
+  };
+  c.support = support;
+}
+
+function intersection(a: Box, b: Box): number {
+  const ix = Math.max(0, Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x));
+  const iy = Math.max(0, Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y));
+  return ix * iy;
+}
+
+function boxIoU(a: Box, b: Box): number {
+  const inter = intersection(a, b);
+  return inter / Math.max(1, a.w * a.h + b.w * b.h - inter);
+}
+
+// Items bucketed by the rows their box spans, so overlap searches only look nearby
+function rowGrid<T>() {
+  const rows = new Map<number, T[]>();
+  const spanned = (box: Box) => {
+    const out: number[] = [];
+    for (let r = Math.floor(box.y / ROW); r <= Math.floor((box.y + box.h) / ROW); r++) out.push(r);
+    return out;
+  };
+  return {
+    add(box: Box, item: T) {
+      for (const r of spanned(box)) {
+        const row = rows.get(r);
+        if (row) row.push(item);
+        else rows.set(r, [item]);
+      }
+    },
+    near(box: Box): T[] {
+      return [...new Set(spanned(box).flatMap((r) => rows.get(r) ?? []))];
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// Tesseract traineddata codes offered in the language selector. Each selected
+// language is downloaded once by the worker and cached by the browser.
+
+export type OcrLanguage = { code: string; label: string };
+
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: "eng", label: "English" },
+  { code: "deu", label: "German" },
+  { code: "fra", label: "French" },
+  { code: "spa", label: "Spanish" },
+  { code: "ita", label: "Italian" },
+  { code: "por", label: "Portuguese" },
+  { code: "nld", label: "Dutch" },
+  { code: "swe", label: "Swedish" },
+  { code: "dan", label: "Danish" },
+  { code: "nor", label: "Norwegian" },
+  { code: "fin", label: "Finnish" },
+  { code: "pol", label: "Polish" },
+  { code: "ces", label: "Czech" },
+  { code: "hun", label: "Hungarian" },
+  { code: "ron", label: "Romanian" },
+  { code: "tur", label: "Turkish" },
+  { code: "ell", label: "Greek" },
+  { code: "rus", label: "Russian" },
+  { code: "ukr", label: "Ukrainian" },
+  { code: "bul", label: "Bulgarian" },
+];
+
+export const DEFAULT_OCR_LANGUAGES = ["eng"];
+
+// English alone is read with an ASCII character whitelist, which stops Tesseract
+// guessing accented letters in code and IDs; any other language needs its own alphabet
+export function needsAsciiWhitelist(languages: string[]): boolean {
+  return languages.every((l) => l === "eng");
+}
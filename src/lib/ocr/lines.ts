@@ -0,0 +1,34 @@
+// Turns Tesseract's words into the lines of an OcrResult: the words' text joined
+// left to right, with the span of each word in the joined string.
+
+import type { OcrResult } from "@/lib/enhanced_detection";
+
+export type OcrLine = OcrResult["lines"][number];
+export type OcrWord = OcrLine["words"][number];
+
+// `lineWidth` is the width the words were read across, used to estimate the
+// character width; a gap wider than 2.5 characters becomes a double space
+export function buildLine(words: OcrWord[], lineWidth: number): OcrLine {
+  const sorted = [...words].sort((a, b) => a.bbox.x - b.bbox.x);
+  const joinedParts: string[] = [];
+  const spans: OcrLine["spans"] = [];
+  let cursor = 0;
+  // estimate mean char width before join (non-space tokens only)
+  const nonSpaceChars = sorted.reduce((acc, w) => acc + (w.text || "").trim().length, 0) || 1;
+  const meanCharWidth = Math.max(1, lineWidth / nonSpaceChars);
+  sorted.forEach((w, idx) => {
+    const token = (w.text || "").trim();
+    const start = cursor;
+    joinedParts.push(token);
+    cursor += token.length;
+    spans.push({ start, end: start + token.length, wordIdx: idx });
+    if (idx < sorted.length - 1) {
+      const next = sorted[idx + 1];
+      const gapToNext = next.bbox.x - (w.bbox.x + w.bbox.w);
+      const gapSpaces = gapToNext > meanCharWidth * 2.5 ? 2 : 1;
+      joinedParts.push(gapSpaces === 2 ? "  " : " ");
+      cursor += gapSpaces;
+    }
+  });
+  return { words: sorted, joined: joinedParts.join(""), spans, meanCharWidth };
+}
@@ -0,0 +1,38 @@
+// Messages between the OCR client (lib/ocr/client) and the OCR worker. Every
+// request carries an id that its progress events and its reply echo back, so
+// concurrent runs never pick up each other's results.
+
+import type { OcrResult } from "@/lib/enhanced_detection";
+import type { ScannedCode } from "@/lib/codes";
+import type { AvatarRegion } from "@/lib/avatars";
+
+type Box = { x0: number; y0: number; x1: number; y1: number };
+
+// What each request takes and what it resolves to
+export type OcrMethods = {
+  // Loads Tesseract with the given languages; a no-op when they're already loaded
+  init: { params: { languages: string[] }; result: null };
+  // Reads the text of one image or tile, loading the languages first if this worker hasn't
+  run: { params: { imageBitmapDataURL: string; languages: string[] }; result: { ocr: OcrResult } };
+  // Finds QR codes, barcodes and avatars in the whole image; `lineBoxes` are its text lines in image pixels
+  scan: { params: { imageBitmapDataURL: string; lineBoxes: Box[] }; result: { codes: ScannedCode[]; avatars: AvatarRegion[] } };
+};
+
+export type OcrMethod = keyof OcrMethods;
+
+export type OcrRequest =
+  | { [M in OcrMethod]: { id: string; method: M; params: OcrMethods[M]["params"] } }[OcrMethod]
+  // Stops the request with id `target` mid-recognition or at its next checkpoint; it then replies with a cancelled error
+  | { id: string; method: "cancel"; params: { target: string } };
+
+// "loading" covers downloading and initializing Tesseract and its languages,
+// "scanning" the code and avatar passes over the whole image
+export type OcrStage = "loading" | "recognizing" | "scanning";
+
+// Progress within the current stage, 0-1
+export type OcrProgress = { stage: OcrStage; progress: number };
+
+export type OcrResponse =
+  | { id: string; type: "progress"; progress: OcrProgress }
+  | { [M in OcrMethod]: { id: string; type: "result"; result: OcrMethods[M]["result"] } }[OcrMethod]
+  | { id: string; type: "error"; error: string; cancelled?: boolean };
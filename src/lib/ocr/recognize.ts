@@ -0,0 +1,91 @@
+// Reads preprocessed images with the worker pool: tall images are cut into
+// overlapping tiles read in parallel at full density and stitched back
+// together, the passes of one image are fused, and the image is then scanned
+// once for codes and avatars.
+
+import type { OcrResult } from "@/lib/enhanced_detection";
+import { requestOcr, type RequestOptions } from "@/lib/ocr/client";
+import { fuseOcrResults } from "@/lib/ocr/fuse";
+import { planTiles, scaleOcrResult, stitchTiles, type Tile } from "@/lib/ocr/stitch";
+
+// Reads every preprocessing pass of one image and fuses them. The passes may
+// differ in size; the result is in the coordinates of the first, which is also
+// the one scanned for codes and avatars. `timeoutMs` applies to each request.
+export async function recognizePasses(passes: HTMLCanvasElement[], languages: string[], opts: RequestOptions = {}): Promise<OcrResult> {
+  const base = passes[0];
+  const passProgress = meanProgress(passes.length, opts.onProgress);
+
+  const results = await allOrNone(passes, opts, async (pass, idx, signal) => {
+    const ocr = await recognizeText(pass, languages, { ...opts, signal, onProgress: passProgress(idx) });
+    return scaleOcrResult(ocr, base.width / pass.width, base.height / pass.height);
+  });
+  const fused = fuseOcrResults(results);
+
+  const lineBoxes = fused.lines.map((ln) => ({
+    x0: Math.min(...ln.words.map((w) => w.bbox.x)),
+    y0: Math.min(...ln.words.map((w) => w.bbox.y)),
+    x1: Math.max(...ln.words.map((w) => w.bbox.x + w.bbox.w)),
+    y1: Math.max(...ln.words.map((w) => w.bbox.y + w.bbox.h)),
+  }));
+  const { codes, avatars } = await requestOcr("scan", { imageBitmapDataURL: base.toDataURL("image/png"), lineBoxes }, opts);
+  return { ...fused, codes, avatars };
+}
+
+// The text of one image, in its own pixel coordinates
+async function recognizeText(image: HTMLCanvasElement, languages: string[], opts: RequestOptions): Promise<OcrResult> {
+  const tiles = planTiles(image.height);
+  const tileProgress = meanProgress(tiles.length, opts.onProgress);
+
+  const results = await allOrNone(tiles, opts, async (tile, idx, signal) => {
+    const { ocr } = await requestOcr("run", { imageBitmapDataURL: cropTile(image, tile), languages }, { ...opts, signal, onProgress: tileProgress(idx) });
+    return { tile, ocr };
+  });
+  return stitchTiles(image.width, image.height, results);
+}
+
+// Reads parts in parallel under a signal of their own: the first to fail aborts
+// the others, so a timed-out tile doesn't leave its siblings holding or queueing
+// for workers. Aborting `opts.signal` aborts them all.
+async function allOrNone<T, R>(parts: T[], opts: RequestOptions, read: (part: T, idx: number, signal: AbortSignal) => Promise<R>): Promise<R[]> {
+  const controller = new AbortController();
+  const forward = () => controller.abort(opts.signal?.reason);
+  if (opts.signal?.aborted) forward();
+  else opts.signal?.addEventListener("abort", forward, { once: true });
+  try {
+    return await Promise.all(
+      parts.map((part, idx) =>
+        read(part, idx, controller.signal).catch((err) => {
+          controller.abort();
+          throw err;
+        })
+      )
+    );
+  } finally {
+    opts.signal?.removeEventListener("abort", forward);
+  }
+}
+
+// Recognition progress of parts read in parallel, as their mean. A part still
+// loading its languages counts as not started; loading itself is passed on
+// until any part starts recognizing.
+function meanProgress(count: number, onProgress: RequestOptions["onProgress"]) {
+  const recognized = new Array<number>(count).fill(0);
+  return (idx: number): RequestOptions["onProgress"] => (progress) => {
+    if (progress.stage !== "recognizing") {
+      if (recognized.every((p) => p === 0)) onProgress?.(progress);
+      return;
+    }
+    recognized[idx] = progress.progress;
+    onProgress?.({ stage: "recognizing", progress: recognized.reduce((a, b) => a + b, 0) / count });
+  };
+}
+
+function cropTile(image: HTMLCanvasElement, tile: Tile): string {
+  if (tile.y0 === 0 && tile.y1 === image.height) return image.toDataURL("image/png");
+  const out = document.createElement("canvas");
+  out.width = image.width;
+  out.height = tile.y1 - tile.y0;
+  const ctx = out.getContext("2d")!;
+  ctx.drawImage(image, 0, tile.y0, image.width, out.height, 0, 0, out.width, out.height);
+  return out.toDataURL("image/png");
+}
@@ -0,0 +1,97 @@
+// Tiling for tall captures. The image is cut into full-width horizontal bands
+// that overlap, each band is read on its own, and the results are stitched
+// back into one OcrResult in the coordinates of the whole image.
+
+import type { OcrResult } from "@/lib/enhanced_detection";
+import { buildLine, type OcrLine, type OcrWord } from "@/lib/ocr/lines";
+
+export type Tile = { y0: number; y1: number };
+export type TileResult = { tile: Tile; ocr: OcrResult };
+
+// Roughly a screen of text at the preprocessing width, so one Tesseract job stays short
+export const TILE_HEIGHT = 1400;
+// Several text lines, so every line lies whole inside at least one tile
+export const TILE_OVERLAP = 160;
+
+// Words read twice in an overlap band cover about the same box
+const DUPLICATE_IOU = 0.5;
+// A box this close is the same word even when the two readings differ
+const SAME_BOX_IOU = 0.8;
+
+export function planTiles(height: number, tileHeight = TILE_HEIGHT, overlap = TILE_OVERLAP): Tile[] {
+  const step = tileHeight - overlap;
+  // A short remainder is folded into the last tile rather than read on its own
+  const count = Math.max(1, Math.round((height - overlap) / step));
+  const tiles: Tile[] = [];
+  for (let i = 0; i < count; i++) {
+    const y0 = i * step;
+    tiles.push({ y0, y1: i === count - 1 ? height : Math.min(height, y0 + tileHeight) });
+  }
+  return tiles;
+}
+
+// Each tile owns the part of the image closer to its centre than to its
+// neighbours'; a line is kept from the tile that owns its middle, where the
+// tile saw it whole. Words still read by both tiles are dropped from the later one.
+export function stitchTiles(width: number, height: number, results: TileResult[]): OcrResult {
+  const lines: OcrLine[] = [];
+  const piiCandidates: NonNullable<OcrResult["piiCandidates"]> = [];
+  let previousWords: OcrWord[] = [];
+
+  results.forEach(({ tile, ocr }, i) => {
+    const top = i === 0 ? -Infinity : (results[i - 1].tile.y1 + tile.y0) / 2;
+    const bottom = i === results.length - 1 ? Infinity : (tile.y1 + results[i + 1].tile.y0) / 2;
+    const owns = (y0: number, y1: number) => {
+      const middle = (y0 + y1) / 2;
+      return middle >= top && middle < bottom;
+    };
+    const toImage = (w: OcrWord): OcrWord => ({
+      ...w,
+      bbox: { x: w.bbox.x * ocr.scaleX, y: w.bbox.y * ocr.scaleY + tile.y0, w: w.bbox.w * ocr.scaleX, h: w.bbox.h * ocr.scaleY },
+    });
+
+    const tileWords: OcrWord[] = [];
+    for (const line of ocr.lines) {
+      const words = line.words.map(toImage);
+      if (words.length === 0) continue;
+      const y0 = Math.min(...words.map((w) => w.bbox.y));
+      const y1 = Math.max(...words.map((w) => w.bbox.y + w.bbox.h));
+      if (!owns(y0, y1)) continue;
+      const fresh = words.filter((w) => !previousWords.some((p) => isDuplicate(p, w)));
+      if (fresh.length === 0) continue;
+      tileWords.push(...fresh);
+      const x0 = Math.min(...fresh.map((w) => w.bbox.x));
+      const x1 = Math.max(...fresh.map((w) => w.bbox.x + w.bbox.w));
+      lines.push(buildLine(fresh, x1 - x0));
+    }
+    previousWords = tileWords;
+
+    for (const c of ocr.piiCandidates ?? []) {
+      const bbox = { x0: c.bbox.x0 * ocr.scaleX, y0: c.bbox.y0 * ocr.scaleY + tile.y0, x1: c.bbox.x1 * ocr.scaleX, y1: c.bbox.y1 * ocr.scaleY + tile.y0 };
+      if (owns(bbox.y0, bbox.y1)) piiCandidates.push({ ...c, bbox });
+    }
+  });
+
+  return { width, height, scaleX: 1, scaleY: 1, lines, piiCandidates };
+}
+
+// Rescales a result into other coordinates, e.g. from the preprocessed image to the canvas
+export function scaleOcrResult(ocr: OcrResult, fx: number, fy: number): OcrResult {
+  const scaleBox = <B extends { x0: number; y0: number; x1: number; y1: number }>(b: B): B => ({ ...b, x0: b.x0 * fx, y0: b.y0 * fy, x1: b.x1 * fx, y1: b.y1 * fy });
+  return {
+    ...ocr,
+    scaleX: ocr.scaleX * fx,
+    scaleY: ocr.scaleY * fy,
+    codes: ocr.codes?.map((c) => ({ ...c, bbox: scaleBox(c.bbox) })),
+    avatars: ocr.avatars?.map((a) => ({ ...a, bbox: scaleBox(a.bbox) })),
+  };
+}
+
+function isDuplicate(a: OcrWord, b: OcrWord): boolean {
+  const ix = Math.max(0, Math.min(a.bbox.x + a.bbox.w, b.bbox.x + b.bbox.w) - Math.max(a.bbox.x, b.bbox.x));
+  const iy = Math.max(0, Math.min(a.bbox.y + a.bbox.h, b.bbox.y + b.bbox.h) - Math.max(a.bbox.y, b.bbox.y));
+  const inter = ix * iy;
+  const iou = inter / Math.max(1, a.bbox.w * a.bbox.h + b.bbox.w * b.bbox.h - inter);
+  if (iou >= SAME_BOX_IOU) return true;
+  return iou >= DUPLICATE_IOU && a.text.trim().toLowerCase() === b.text.trim().toLowerCase();
+}
@@ -1,3 +1,6 @@
+import type { RedactionMode } from "@/lib/customRules";
+import type { ConfidenceBreakdown } from "@/lib/confidence";
+
 export type BBox = { x0: number; y0: number; x1: number; y1: number };
 
 export type Detection = {
@@ -6,6 +9,10 @@ export type Detection = {
   text: string;
   confidence: number;
   bbox: BBox; // full-resolution pixels
+  detail?: string; // recognizer annotation, e.g. a phone number's parsed country
+  redactAs?: RedactionMode; // custom rules pick their own mode over the panel's
+  breakdown?: ConfidenceBreakdown; // what the confidence is made of, for the panel tooltip
+  rects?: BBox[]; // one box per line when the match wraps; bbox is their union
 };
 
 export function drawDetectionsOverlay(
@@ -19,17 +26,19 @@ export function drawDetectionsOverlay(
   const scaleY = canvasRect.height / canvasEl.height;
 
   for (const det of detections) {
-    const el = document.createElement("div");
-    el.style.position = "absolute";
-    el.style.left = `${det.bbox.x0 * scaleX}px`;
-    el.style.top = `${det.bbox.y0 * scaleY}px`;
-    el.style.width = `${(det.bbox.x1 - det.bbox.x0) * scaleX}px`;
-    el.style.height = `${(det.bbox.y1 - det.bbox.y0) * scaleY}px`;
-    el.style.border = "2px solid #2563EB";
-    el.style.background = "rgba(37,99,235,0.12)";
-    el.style.borderRadius = "4px";
-    el.title = `${det.type}: ${det.text}`;
-    overlayEl.appendChild(el);
+    for (const r of det.rects ?? [det.bbox]) {
+      const el = document.createElement("div");
+      el.style.position = "absolute";
+      el.style.left = `${r.x0 * scaleX}px`;
+      el.style.top = `${r.y0 * scaleY}px`;
+      el.style.width = `${(r.x1 - r.x0) * scaleX}px`;
+      el.style.height = `${(r.y1 - r.y0) * scaleY}px`;
+      el.style.border = "2px solid #2563EB";
+      el.style.background = "rgba(37,99,235,0.12)";
+      el.style.borderRadius = "4px";
+      el.title = `${det.type}: ${det.text}`;
+      overlayEl.appendChild(el);
+    }
   }
 }
 
@@ -0,0 +1,146 @@
+// Offline phone numbering-plan metadata and an E.164 parser built on it.
+// Deliberately small: enough to reject order numbers and timestamps and to
+// attribute a number to its country, not a full libphonenumber replacement.
+
+type PhoneMetadata = {
+  countryCode: string;
+  // Allowed lengths of the national significant number
+  lengths: number[];
+  // Prefix dialled before national numbers inside the country
+  trunkPrefix?: string;
+  // Whether national-format numbers are always written with the trunk prefix
+  trunkRequired?: boolean;
+  // Shape of a valid national significant number
+  pattern?: RegExp;
+};
+
+const PHONE_METADATA: Record<string, PhoneMetadata> = {
+  US: { countryCode: "1", lengths: [10], trunkPrefix: "1", pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  CA: { countryCode: "1", lengths: [10], trunkPrefix: "1", pattern: /^[2-9]\d{2}[2-9]\d{6}$/ },
+  GB: { countryCode: "44", lengths: [9, 10], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  IE: { countryCode: "353", lengths: [7, 8, 9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  DE: { countryCode: "49", lengths: [6, 7, 8, 9, 10, 11, 12, 13], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  FR: { countryCode: "33", lengths: [9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  ES: { countryCode: "34", lengths: [9], pattern: /^[5-9]/ },
+  IT: { countryCode: "39", lengths: [6, 7, 8, 9, 10, 11], pattern: /^[03]/ },
+  NL: { countryCode: "31", lengths: [9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  BE: { countryCode: "32", lengths: [8, 9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  CH: { countryCode: "41", lengths: [9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  AT: { countryCode: "43", lengths: [4, 5, 6, 7, 8, 9, 10, 11, 12, 13], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  SE: { countryCode: "46", lengths: [7, 8, 9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  NO: { countryCode: "47", lengths: [8], pattern: /^[2-9]/ },
+  DK: { countryCode: "45", lengths: [8], pattern: /^[2-9]/ },
+  PL: { countryCode: "48", lengths: [9], pattern: /^[1-9]/ },
+  PT: { countryCode: "351", lengths: [9], pattern: /^[2-9]/ },
+  AU: { countryCode: "61", lengths: [9], trunkPrefix: "0", trunkRequired: true, pattern: /^[2-478]/ },
+  NZ: { countryCode: "64", lengths: [8, 9, 10], trunkPrefix: "0", trunkRequired: true, pattern: /^[2-9]/ },
+  IN: { countryCode: "91", lengths: [10], trunkPrefix: "0", pattern: /^[1-9]/ },
+  JP: { countryCode: "81", lengths: [9, 10], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-9]/ },
+  CN: { countryCode: "86", lengths: [9, 10, 11], trunkPrefix: "0", pattern: /^[1-9]/ },
+  SG: { countryCode: "65", lengths: [8], pattern: /^[3689]/ },
+  HK: { countryCode: "852", lengths: [8], pattern: /^[2-9]/ },
+  BR: { countryCode: "55", lengths: [10, 11], trunkPrefix: "0", pattern: /^[1-9]{2}/ },
+  MX: { countryCode: "52", lengths: [10], pattern: /^[1-9]/ },
+  ZA: { countryCode: "27", lengths: [9], trunkPrefix: "0", trunkRequired: true, pattern: /^[1-8]/ },
+  AE: { countryCode: "971", lengths: [8, 9], trunkPrefix: "0", trunkRequired: true, pattern: /^[2-9]/ },
+  IL: { countryCode: "972", lengths: [8, 9], trunkPrefix: "0", trunkRequired: true, pattern: /^[2-9]/ },
+};
+
+// NANP area codes assigned to Canada; everything else under +1 is reported as US
+const CA_AREA_CODES = new Set([
+  "204", "226", "236", "249", "250", "263", "289", "306", "343", "354", "365", "367", "368", "382",
+  "403", "416", "418", "428", "431", "437", "438", "450", "468", "474", "506", "514", "519", "548",
+  "579", "581", "584", "587", "604", "613", "639", "647", "672", "683", "705", "709", "742", "753",
+  "778", "780", "782", "807", "819", "825", "867", "873", "879", "902", "905",
+]);
+
+const REGIONS_BY_CODE = Object.entries(PHONE_METADATA).reduce((acc, [region, meta]) => {
+  (acc[meta.countryCode] ||= []).push(region);
+  return acc;
+}, {} as Record<string, string[]>);
+
+export type ParsedPhone = {
+  region: string;
+  countryCode: string;
+  nationalNumber: string;
+  extension?: string;
+  e164: string;
+  // 0-1 plausibility: explicit country code > formatted national > bare digit run
+  score: number;
+};
+
+export function getPhoneRegions(): string[] {
+  return Object.keys(PHONE_METADATA).sort();
+}
+
+function isValidNational(meta: PhoneMetadata, national: string): boolean {
+  return meta.lengths.includes(national.length) && (!meta.pattern || meta.pattern.test(national));
+}
+
+function resolveRegion(candidates: string[], national: string): string | undefined {
+  const valid = candidates.filter((r) => isValidNational(PHONE_METADATA[r], national));
+  if (valid.includes("US") && valid.includes("CA")) {
+    return CA_AREA_CODES.has(national.slice(0, 3)) ? "CA" : "US";
+  }
+  return valid[0];
+}
+
+export function parsePhoneNumber(raw: string, defaultRegion = "US"): ParsedPhone | null {
+  let text = raw.trim();
+  let extension: string | undefined;
+  const ext = text.match(/\s*(?:ext\.?|x|#)\s*(\d{1,6})$/i);
+  if (ext && ext.index !== undefined && ext.index > 0) {
+    extension = ext[1];
+    text = text.slice(0, ext.index).trim();
+  }
+  // "+44 (0)20 ..." carries a trunk prefix that is dropped when dialling internationally
+  text = text.replace(/\(\s*0\s*\)/, "");
+  if (/[^0-9+()\-.\s]/.test(text) || text.lastIndexOf("+") > 0) return null;
+  // Dates share the digit-group shape: 2023-01-15, 15.01.2023
+  if (/^\d{4}[-.]\d{1,2}[-.]\d{1,2}(?!\d)/.test(text) || /^\d{1,2}[-.]\d{1,2}[-.]\d{2,4}(?!\d)/.test(text)) return null;
+
+  let digits = text.replace(/\D/g, "");
+  const formatted = /[\s().\-]/.test(text);
+  const defaultMeta = PHONE_METADATA[defaultRegion] ?? PHONE_METADATA.US;
+
+  let international = text.startsWith("+");
+  if (!international && digits.startsWith("00")) {
+    international = true;
+    digits = digits.slice(2);
+  } else if (!international && defaultMeta.countryCode === "1" && digits.startsWith("011")) {
+    international = true;
+    digits = digits.slice(3);
+  }
+
+  if (international) {
+    for (let n = 1; n <= 3; n++) {
+      const countryCode = digits.slice(0, n);
+      const regions = REGIONS_BY_CODE[countryCode];
+      if (!regions) continue;
+      const nationalNumber = digits.slice(n);
+      const region = resolveRegion(regions, nationalNumber);
+      if (!region) continue;
+      return { region, countryCode, nationalNumber, extension, e164: `+${countryCode}${nationalNumber}`, score: 1 };
+    }
+    return null;
+  }
+
+  let nationalNumber = digits;
+  let trunkUsed = false;
+  if (defaultMeta.trunkPrefix && digits.startsWith(defaultMeta.trunkPrefix) && !isValidNational(defaultMeta, digits)) {
+    nationalNumber = digits.slice(defaultMeta.trunkPrefix.length);
+    trunkUsed = true;
+  }
+  if (defaultMeta.trunkRequired && !trunkUsed) return null;
+  const region = resolveRegion(REGIONS_BY_CODE[defaultMeta.countryCode], nationalNumber);
+  if (!region) return null;
+  return {
+    region,
+    countryCode: defaultMeta.countryCode,
+    nationalNumber,
+    extension,
+    e164: `+${defaultMeta.countryCode}${nationalNumber}`,
+    // Unformatted digit runs are as likely to be order numbers or IDs
+    score: formatted || trunkUsed ? 0.9 : 0.6,
+  };
+}
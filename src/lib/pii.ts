@@ -1,21 +1,4 @@
-export type PiiType = "email" | "phone" | "url" | "ipv4" | "credit_card" | "name" | "other";
-
-export function classifyPii(text: string): PiiType {
-  const s = sanitize(text);
-  
-  // Debug logging - remove in production
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`Classifying: "${text}" -> sanitized: "${s}"`);
-  }
-  
-  if (isEmail(s)) return "email";
-  if (isPhone(s)) return "phone";
-  if (isUrl(s)) return "url";
-  if (isIPv4(s)) return "ipv4";
-  if (isCreditCard(s)) return "credit_card";
-  if (isNameHeuristic(s)) return "name";
-  return "other";
-}
+import { parsePhoneNumber } from "@/lib/phone";
 
 export function isEmail(s: string): boolean {
   // Enhanced email detection with better OCR artifact handling
@@ -40,8 +23,9 @@ export function isEmail(s: string): boolean {
     .replace(/@\s*[.,;]/g, "@") // Remove punctuation after @
     .trim();
 
-  // More flexible email regex that handles common OCR artifacts
-  const emailRegex = /^[A-Za-z0-9._%+\-]+@[A-Za-z0-9.\-]+\.[A-Za-z]{2,}$/;
+  // More flexible email regex that handles common OCR artifacts; letters in any
+  // script, for internationalized addresses ("josé@müller.de")
+  const emailRegex = /^[\p{L}\p{M}\p{N}._%+\-]+@[\p{L}\p{M}\p{N}.\-]+\.\p{L}{2,}$/u;
   
   if (process.env.NODE_ENV === 'development') {
     console.log(`Email check: "${s}" -> "${normalized}" -> ${emailRegex.test(normalized)}`);
@@ -50,15 +34,9 @@ export function isEmail(s: string): boolean {
   return emailRegex.test(normalized);
 }
 
-export function isPhone(s: string): boolean {
-  // Accept typical international/NANP variants, separators and parentheses
-  const cleaned = s.replace(/[^0-9+()\-\s]/g, "").trim();
-  // Stronger pattern: optional country, then groups of 2-4 digits
-  const re = /^\+?\d{1,3}[\s\-]?\(?\d{2,4}\)?([\s\-]?\d{2,4}){1,4}$/;
-  if (!re.test(cleaned)) return false;
-  // Ensure at least 7 digits overall
-  const digits = cleaned.replace(/\D/g, "");
-  return digits.length >= 7 && digits.length <= 15;
+export function isPhone(s: string, defaultRegion = "US"): boolean {
+  // Parsed against the country's numbering plan rather than a loose digit-group regex
+  return parsePhoneNumber(s, defaultRegion) !== null;
 }
 
 export function isUrl(s: string): boolean {
@@ -112,34 +90,28 @@ export function isIPv4(s: string): boolean {
 }
 
 export function isCreditCard(s: string): boolean {
+  // Only digits in space- or dash-separated groups look like a card; stripping
+  // everything else would make a card of "db-1 2001:db8:85a3::8a2e:370:7334"
+  if (!/^\d+(?:\s*[\s-]\s*\d+)*$/.test(s.trim())) return false;
   const digits = s.replace(/[^0-9]/g, "");
   if (digits.length < 13 || digits.length > 19) return false;
   return luhnCheck(digits);
 }
 
-export function isNameHeuristic(s: string): boolean {
-  // Very simple: two words ProperCase each, optional middle initial
-  const cleaned = s.replace(/[^A-Za-z'\-\s]/g, " ").trim();
-  const parts = cleaned.split(/\s+/).filter(Boolean);
-  if (parts.length < 2 || parts.length > 3) return false;
-  const isProper = (w: string) => /^[A-Z][a-zA-Z'\-]{1,}$/.test(w);
-  const isInitial = (w: string) => /^[A-Z]\.$/.test(w);
-  if (parts.length === 2) return isProper(parts[0]) && isProper(parts[1]);
-  return isProper(parts[0]) && (isProper(parts[1]) || isInitial(parts[1])) && isProper(parts[2]);
-}
-
 export function sanitize(s: string): string {
   return s
+    // OCR can return an accent as a separate combining mark ("e\u0301"); compose it ("é")
+    .normalize("NFC")
     .trim()
-    // Remove zero-width characters
-    .replace(/[\u200B-\u200D\uFEFF]/g, "")
-    // Remove trailing punctuation (but be careful not to remove dots from domains)
-    .replace(/[,;:!?)]$/g, "")
+    // Remove zero-width, soft hyphen and bidi control characters
+    .replace(/[\u00AD\u200B-\u200F\u202A-\u202E\u2060\uFEFF]/g, "")
+    // Remove trailing punctuation, full-width forms included (but be careful not to remove dots from domains)
+    .replace(/[,;:!?)\uFF0C\uFF1B\uFF1A\uFF01\uFF1F\uFF09]$/g, "")
     // Handle OCR artifacts - multiple spaces become single space
     .replace(/\s+/g, " ");
 }
 
-function luhnCheck(numStr: string): boolean {
+export function luhnCheck(numStr: string): boolean {
   let sum = 0;
   let shouldDouble = false;
   for (let i = numStr.length - 1; i >= 0; i--) {
@@ -187,25 +159,173 @@ export function ipv4Ok(raw: string): boolean {
   return true;
 }
 
-// Additional utility function to help with debugging
-export function debugPiiClassification(text: string): { 
-  type: PiiType; 
-  sanitized: string; 
-  checks: Record<string, boolean> 
-} {
-  const sanitized = sanitize(text);
-  const checks = {
-    email: isEmail(sanitized),
-    phone: isPhone(sanitized),
-    url: isUrl(sanitized),
-    ipv4: isIPv4(sanitized),
-    credit_card: isCreditCard(sanitized),
-    name: isNameHeuristic(sanitized)
-  };
-  
-  return {
-    type: classifyPii(text),
-    sanitized,
-    checks
-  };
-}
\ No newline at end of file
+// Same OCR repair as ipv4Ok; O, l and I are never hex digits so this is safe for IPv6/MAC too
+export function normalizeNetworkId(raw: string): string {
+  return raw
+    .replace(/\s+/g, "")
+    .replace(/[oO]/g, "0")
+    .replace(/[l|I]/g, "1");
+}
+
+export function ipv6Ok(raw: string): boolean {
+  const compact = normalizeNetworkId(raw).replace(/%[\w.]+$/, ""); // drop a zone id like %eth0
+  if (!/^[0-9A-Fa-f:.]+$/.test(compact) || compact.length < 6) return false;
+  const halves = compact.split("::");
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap((h) => (h ? h.split(":") : []));
+  // An embedded IPv4 tail (::ffff:10.0.0.1) counts as two groups
+  let groupCount = groups.length;
+  const last = groups[groups.length - 1];
+  if (last && last.includes(".")) {
+    if (!ipv4Ok(last)) return false;
+    groups.pop();
+    groupCount++;
+  }
+  if (!groups.every((g) => /^[0-9A-Fa-f]{1,4}$/.test(g))) return false;
+  if (halves.length === 2) return groupCount < 8 && groupCount >= 2;
+  return groupCount === 8;
+}
+
+export function macOk(raw: string): boolean {
+  const compact = normalizeNetworkId(raw);
+  // 00:1A:2B:3C:4D:5E, 00-1A-2B-3C-4D-5E (one separator throughout) or Cisco 001a.2b3c.4d5e
+  return (
+    /^[0-9A-Fa-f]{2}([:-])(?:[0-9A-Fa-f]{2}\1){4}[0-9A-Fa-f]{2}$/.test(compact) ||
+    /^[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4}$/.test(compact)
+  );
+}
+
+export function cidrOk(raw: string): boolean {
+  const compact = normalizeNetworkId(raw);
+  const m = compact.match(/^(.+)\/(\d{1,3})$/);
+  if (!m) return false;
+  const prefix = parseInt(m[2], 10);
+  if (ipv4Ok(m[1])) return prefix <= 32;
+  return ipv6Ok(m[1]) && prefix <= 128;
+}
+
+// Expected IBAN length per country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24,
+  FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21,
+  HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28,
+  LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27,
+  MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24,
+  RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, TL: 23, TN: 24, TR: 26,
+  UA: 29, VA: 22, VG: 24, XK: 20,
+};
+
+export function ibanLength(country: string): number | undefined {
+  return IBAN_LENGTHS[country.toUpperCase()];
+}
+
+// Structural IBAN check: known country, correct length, numeric check digits
+export function isIbanShape(raw: string): boolean {
+  const iban = raw.replace(/\s+/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return false;
+  return ibanLength(iban.slice(0, 2)) === iban.length;
+}
+
+// ISO 7064 mod-97-10 over the rearranged IBAN
+export function ibanOk(raw: string): boolean {
+  const iban = raw.replace(/\s+/g, "").toUpperCase();
+  if (!isIbanShape(iban)) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = ch >= "A" && ch <= "Z" ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+// ABA routing number: Federal Reserve prefix plus the 3-7-1 weighted checksum
+export function abaRoutingOk(raw: string): boolean {
+  const digits = raw.replace(/\D/g, "");
+  if (digits.length !== 9) return false;
+  const prefix = parseInt(digits.slice(0, 2), 10);
+  const prefixOk = prefix <= 12 || (prefix >= 21 && prefix <= 32) || (prefix >= 61 && prefix <= 72) || prefix === 80;
+  if (!prefixOk) return false;
+  const d = digits.split("").map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+// SWIFT/BIC: bank code, ISO country, location and optional branch
+export function bicOk(raw: string): boolean {
+  const bic = raw.replace(/\s+/g, "").toUpperCase();
+  if (!/^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic)) return false;
+  const country = bic.slice(4, 6);
+  return ibanLength(country) !== undefined || ["US", "CA", "AU", "JP", "CN", "IN", "SG", "HK", "NZ", "ZA", "MX"].includes(country);
+}
+
+// US SSN: no 000/666/9xx area, 00 group or 0000 serial
+export function ssnOk(raw: string): boolean {
+  const digits = raw.replace(/\D/g, "");
+  if (digits.length !== 9) return false;
+  const area = digits.slice(0, 3);
+  if (area === "000" || area === "666" || area[0] === "9") return false;
+  return digits.slice(3, 5) !== "00" && digits.slice(5) !== "0000";
+}
+
+// UK National Insurance number: HMRC prefix rules plus an A-D suffix
+export function ninoOk(raw: string): boolean {
+  const nino = raw.replace(/\s+/g, "").toUpperCase();
+  if (!/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(nino)) return false;
+  return !["BG", "GB", "KN", "NK", "NT", "TN", "ZZ"].includes(nino.slice(0, 2));
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function verhoeffCheck(numStr: string): boolean {
+  let c = 0;
+  const digits = numStr.split("").reverse().map(Number);
+  for (let i = 0; i < digits.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][digits[i]]];
+  }
+  return c === 0;
+}
+
+// Indian Aadhaar: 12 digits, never starting with 0 or 1, Verhoeff check digit
+export function aadhaarOk(raw: string): boolean {
+  const digits = raw.replace(/\D/g, "");
+  return /^[2-9]\d{11}$/.test(digits) && verhoeffCheck(digits);
+}
+
+// Dutch BSN: 9 digits passing the weighted "11-proef"
+export function bsnOk(raw: string): boolean {
+  const digits = raw.replace(/\D/g, "").padStart(9, "0");
+  if (digits.length !== 9 || /^0+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < 8; i++) sum += Number(digits[i]) * (9 - i);
+  sum -= Number(digits[8]);
+  return sum % 11 === 0;
+}
+
+// Spanish DNI (8 digits) or NIE (X/Y/Z + 7 digits) with its mod-23 check letter
+export function spanishIdOk(raw: string): boolean {
+  const id = raw.replace(/[\s\-]+/g, "").toUpperCase();
+  const m = id.match(/^([XYZ]?)(\d{7,8})([A-Z])$/);
+  if (!m) return false;
+  const [, niePrefix, body, letter] = m;
+  if (niePrefix ? body.length !== 7 : body.length !== 8) return false;
+  const num = parseInt((niePrefix ? String("XYZ".indexOf(niePrefix)) : "") + body, 10);
+  return "TRWAGMYFPDXBNJZSQVHLCKE"[num % 23] === letter;
+}
+
+// Canadian SIN: 9 digits, Luhn-valid, first digit never 0 or 8
+export function sinOk(raw: string): boolean {
+  const digits = raw.replace(/\D/g, "");
+  return digits.length === 9 && digits[0] !== "0" && digits[0] !== "8" && luhnCheck(digits);
+}
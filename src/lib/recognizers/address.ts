@@ -0,0 +1,153 @@
+import { registerRecognizer } from "@/lib/recognizers/registry";
+
+// Postal address recognizer. Addresses are laid out over two to four OCR lines,
+// so besides the usual whole-line check it exposes a block finder that walks
+// vertically adjacent lines and scores the address parts it sees.
+
+type BBox = { x0: number; y0: number; x1: number; y1: number };
+
+export type AddressLine = { text: string; bbox: BBox };
+
+export type AddressBlock = {
+  // Indices into the lines passed to findAddressBlocks, top to bottom
+  lineIndices: number[];
+  text: string;
+  // 0-1 share of the address parts present
+  score: number;
+  // Street, postcode and locality all found
+  complete: boolean;
+};
+
+type AddressSignals = {
+  street: boolean;
+  postcode: boolean;
+  city: boolean;
+  // Unit, PO box or country line: supporting evidence only
+  extra: boolean;
+  // Bare capitalised words ("London"), a locality only when a postcode backs it up
+  bareLocality: boolean;
+};
+
+const STREET_TYPES =
+  "street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace|ter|parkway|pkwy|" +
+  "highway|hwy|close|crescent|cres|square|sq|circle|cir|row|mews|grove|gardens|walk|hill|" +
+  "rue|avenida|allée|impasse|chemin|via|calle|carrer|rua";
+
+// "1600 Amphitheatre Pkwy", "221B Baker Street", "12 rue de Rivoli"
+const NUMBER_FIRST_STREET = new RegExp(`\\b\\d{1,6}[A-Za-z]?,?\\s+(?:[\\wÀ-ÿ.'-]+\\s+){0,4}?(?:${STREET_TYPES})\\b`, "i");
+// "Hauptstraße 5", "Keizersgracht 123a", "Via Roma 10"
+const NAME_FIRST_STREET =
+  /\b[\wÀ-ÿ]+(?:straße|strasse|str\.|weg|gasse|allee|platz|laan|straat|gracht|plein|vej|gatan|gade)\s+\d{1,5}[a-z]?\b|\b(?:via|calle|rue|avenida|carrer|rua|piazza|plaza)\s+[\wÀ-ÿ' ]+?,?\s+\d{1,5}\b/i;
+const PO_BOX = /\b(?:P\.?\s?O\.?\s?Box|Postfach|Apartado)\s+\d+/i;
+
+const US_STATE_ZIP = /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/;
+const ZIP_PLUS_FOUR = /\b\d{5}-\d{4}\b/;
+const UK_POSTCODE = /\b(?:GIR\s?0AA|[A-PR-UWYZ][A-HK-Y]?\d[A-Z\d]?\s?\d[ABD-HJLNP-UW-Z]{2})\b/;
+const CA_POSTCODE = /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\s?\d[ABCEGHJ-NPRSTV-Z]\d\b/;
+// "10115 Berlin", "D-80331 München", "1012 AB Amsterdam": the town follows the code
+const EU_POSTCODE_CITY = /\b(?:[A-Z]{1,2}-)?(?:\d{4}\s?[A-Z]{2}|\d{4,5})\s+[A-ZÀ-Ý][a-zà-ÿ]+/;
+// "Mountain View, CA", "Toronto, ON"
+const CITY_STATE = /\b[A-Z][a-zA-Z.'-]+(?:\s+[A-Z][a-zA-Z.'-]+){0,3},\s*[A-Z]{2}\b/;
+// "London SW1A 1AA", "Ottawa ON K1A 0B1": a town in front of a UK or Canadian code
+const TOWN_BEFORE_POSTCODE = new RegExp(`\\b[A-Z][a-z]+,?\\s+(?:[A-Z]{2}\\s+)?(?:${UK_POSTCODE.source}|${CA_POSTCODE.source})`);
+
+const UNIT = /^(?:apt|apartment|suite|ste|unit|flat|floor|fl|building|bldg)\.?\s*#?\s*\w+|^#\s*\d+/i;
+const COUNTRY =
+  /^(?:united states(?: of america)?|usa|u\.s\.a\.|united kingdom|uk|great britain|canada|germany|deutschland|france|netherlands|nederland|belgium|spain|españa|italy|italia|austria|österreich|switzerland|schweiz|ireland|australia)$/i;
+const BARE_LOCALITY = /^[A-ZÀ-Ý][a-zà-ÿ'-]+(?:\s+[A-ZÀ-Ý][a-zà-ÿ'-]+){0,2}$/;
+
+function addressSignals(text: string): AddressSignals {
+  const t = text.trim();
+  const euCity = EU_POSTCODE_CITY.test(t);
+  const postcode = US_STATE_ZIP.test(t) || ZIP_PLUS_FOUR.test(t) || UK_POSTCODE.test(t) || CA_POSTCODE.test(t) || euCity;
+  return {
+    street: NUMBER_FIRST_STREET.test(t) || NAME_FIRST_STREET.test(t) || PO_BOX.test(t),
+    postcode,
+    city: CITY_STATE.test(t) || TOWN_BEFORE_POSTCODE.test(t) || euCity,
+    extra: UNIT.test(t) || COUNTRY.test(t.replace(/[.,]$/, "")),
+    bareLocality: BARE_LOCALITY.test(t.replace(/,$/, "")),
+  };
+}
+
+function hasAnySignal(s: AddressSignals): boolean {
+  return s.street || s.postcode || s.city || s.extra || s.bareLocality;
+}
+
+function scoreSignals(signals: AddressSignals[]): { score: number; qualifies: boolean; complete: boolean } {
+  const street = signals.some((s) => s.street);
+  const postcode = signals.some((s) => s.postcode);
+  const city = signals.some((s) => s.city) || (postcode && signals.some((s) => s.bareLocality));
+  const extra = signals.some((s) => s.extra);
+  const score = Math.min(1, (street ? 0.45 : 0) + (postcode ? 0.35 : 0) + (city ? 0.1 : 0) + (extra ? 0.1 : 0));
+  return {
+    score,
+    // A street line alone is too common ("3 Way Street Mall"); it needs a postcode or "City, ST" next to it
+    qualifies: street && (postcode || signals.some((s) => s.city)),
+    complete: street && postcode && city,
+  };
+}
+
+export function isAddressLine(text: string): boolean {
+  return scoreSignals([addressSignals(text)]).qualifies;
+}
+
+// The nearest line directly below `from` that shares some horizontal extent with it
+function lineBelow(lines: AddressLine[], from: number): number | undefined {
+  const a = lines[from].bbox;
+  const height = a.y1 - a.y0;
+  let best: number | undefined;
+  lines.forEach((line, idx) => {
+    const b = line.bbox;
+    if (idx === from || b.y0 < a.y0 + height * 0.5) return;
+    if (b.y0 - a.y1 > height * 1.2) return;
+    if (b.x0 >= a.x1 || b.x1 <= a.x0) return;
+    if (best === undefined || b.y0 < lines[best].bbox.y0) best = idx;
+  });
+  return best;
+}
+
+export function findAddressBlocks(lines: AddressLine[]): AddressBlock[] {
+  const signals = lines.map((line) => addressSignals(line.text));
+  const blocks: AddressBlock[] = [];
+  const used = new Set<number>();
+
+  lines.forEach((_, start) => {
+    if (used.has(start) || !signals[start].street) return;
+
+    const indices = [start];
+    while (indices.length < 4) {
+      const next = lineBelow(lines, indices[indices.length - 1]);
+      if (next === undefined || used.has(next) || !hasAnySignal(signals[next])) break;
+      // A second street line starts the next address
+      if (signals[next].street && !signals[next].postcode) break;
+      indices.push(next);
+    }
+    // Drop trailing lines that add nothing once the postcode is in ("Billing details" under the address)
+    while (indices.length > 1) {
+      const last = signals[indices[indices.length - 1]];
+      const postcodeBefore = indices.slice(0, -1).some((i) => signals[i].postcode);
+      if (last.postcode || last.city || last.extra || (last.bareLocality && !postcodeBefore)) break;
+      indices.pop();
+    }
+
+    const { score, qualifies, complete } = scoreSignals(indices.map((i) => signals[i]));
+    if (!qualifies) return;
+    indices.forEach((i) => used.add(i));
+    blocks.push({ lineIndices: indices, text: indices.map((i) => lines[i].text.trim()).join(", "), score, complete });
+  });
+
+  return blocks;
+}
+
+registerRecognizer({
+  id: "address",
+  label: "Postal Address",
+  priority: 70,
+  defaultAction: "redact",
+  badgeClass: "bg-lime-500/15 text-lime-400",
+  specificity: 0.6,
+  check: "address parts",
+  // Single-line addresses ("1600 Amphitheatre Pkwy, Mountain View, CA 94043"); stacked ones go through findAddressBlocks
+  classify: isAddressLine,
+  lengthOk: (text) => text.trim().length >= 10 && text.trim().length <= 300,
+});
@@ -0,0 +1,15 @@
+import { registerRecognizer } from "@/lib/recognizers/registry";
+
+// Panel entry for profile pictures next to chat messages. They are found by
+// shape in the OCR worker (lib/avatars), not in text, so there is no pattern;
+// they wait for review because a round icon can pass for one.
+
+registerRecognizer({
+  id: "avatar",
+  label: "Avatar",
+  priority: 9,
+  defaultAction: "review",
+  badgeClass: "bg-green-500/15 text-green-400",
+  specificity: 0.6,
+  check: "repeated in a column",
+});
@@ -0,0 +1,100 @@
+import { abaRoutingOk, bicOk, ibanLength, ibanOk, isIbanShape } from "@/lib/pii";
+import { registerRecognizer, withContext, type Recognizer } from "@/lib/recognizers/registry";
+
+// Bank account recognizers for invoice and online-banking screenshots
+
+const BANK_BADGE = "bg-orange-500/15 text-orange-400";
+
+const compactUpper = (match: string) => match.replace(/\s+/g, "").toUpperCase();
+
+// IBANs are printed in groups of four, and OCR adds or drops spaces freely. The
+// greedy pattern can run into the next word, so cut each match at the length
+// its country code calls for.
+function findIbanCandidates(lineText: string): string[] {
+  const out: string[] = [];
+  for (const m of lineText.matchAll(/\b([A-Z]{2}\s*\d{2}(?:\s*[A-Z0-9]){11,30})/g)) {
+    const raw = m[1];
+    const expected = ibanLength(raw.slice(0, 2));
+    if (!expected) continue;
+    let seen = 0;
+    let end = 0;
+    while (end < raw.length && seen < expected) {
+      if (!/\s/.test(raw[end])) seen++;
+      end++;
+    }
+    if (seen === expected) out.push(raw.slice(0, end));
+  }
+  return out;
+}
+
+const bankRecognizers: Recognizer[] = [
+  {
+    id: "iban",
+    label: "IBAN",
+    priority: 45,
+    defaultAction: "redact",
+    badgeClass: BANK_BADGE,
+    specificity: 0.9,
+    check: "IBAN mod-97",
+    context: /\bIBAN\b|\baccount\b/i,
+    findCandidates: findIbanCandidates,
+    clean: compactUpper,
+    validate: isIbanShape,
+    isStrongMatch: ibanOk,
+    // A right-shaped IBAN that fails mod-97 is most likely an OCR misread: keep it, but weaker
+    confidenceFactor: (iban) => (ibanOk(iban) ? 1 : 0.6),
+    classify: (s) => isIbanShape(compactUpper(s)),
+    lengthOk: (text) => compactUpper(text).length >= 15 && compactUpper(text).length <= 34,
+  },
+  {
+    id: "uk_bank_account",
+    label: "Sort Code & Account",
+    priority: 46,
+    defaultAction: "redact",
+    badgeClass: BANK_BADGE,
+    specificity: 0.8,
+    // "Sort code 12-34-56 Account no. 12345678"; the label keeps dates like 12-03-88 out
+    findCandidates: withContext(
+      /sort\s*code|\bs\/c\b|\ba\/c\b|\baccount\b|\bacc(?:t)?\b/i,
+      /\b(\d{2}\s*[-–]\s*\d{2}\s*[-–]\s*\d{2}\D{0,30}?\b\d{8})\b/g
+    ),
+    clean: (match) => {
+      const digits = match.replace(/\D/g, "");
+      return `${digits.slice(0, 2)}-${digits.slice(2, 4)}-${digits.slice(4, 6)} ${digits.slice(6)}`;
+    },
+    validate: (text) => /^\d{2}-\d{2}-\d{2} \d{8}$/.test(text),
+    // The label plus the paired structure is strong evidence on its own
+    isStrongMatch: () => true,
+  },
+  {
+    id: "routing_number",
+    label: "Routing Number",
+    priority: 47,
+    defaultAction: "redact",
+    badgeClass: BANK_BADGE,
+    specificity: 0.6,
+    check: "ABA checksum",
+    // Any 9-digit number could be a routing number, so require a label on the line
+    findCandidates: withContext(/\brouting\b|\bABA\b|\bRTN\b|\bACH\b|\btransit\b/i, /\b(\d{3}\s*\d{3}\s*\d{3})\b/g),
+    clean: (match) => match.replace(/\D/g, ""),
+    validate: (digits) => digits.length === 9,
+    isStrongMatch: abaRoutingOk,
+    confidenceFactor: (digits) => (abaRoutingOk(digits) ? 1 : 0.5),
+  },
+  {
+    id: "swift_bic",
+    label: "SWIFT/BIC",
+    priority: 48,
+    defaultAction: "redact",
+    badgeClass: BANK_BADGE,
+    specificity: 0.7,
+    check: "BIC structure",
+    // All-caps UI words look like BICs too, so require a SWIFT/BIC label on the line
+    findCandidates: withContext(/\bSWIFT\b|\bBIC\b/i, /\b([A-Z]{4}\s?[A-Z]{2}\s?[A-Z0-9]{2}(?:\s?[A-Z0-9]{3})?)\b/g),
+    clean: compactUpper,
+    validate: bicOk,
+    isStrongMatch: bicOk,
+  },
+];
+
+bankRecognizers.forEach(registerRecognizer);
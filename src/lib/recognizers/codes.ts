@@ -0,0 +1,26 @@
+import { registerRecognizer } from "@/lib/recognizers/registry";
+
+// Panel entries for QR codes and barcodes found in the image. They are located
+// and decoded in the OCR worker (lib/codes), not matched in text, so there is
+// no pattern here; the decoded payload is classified in processOcrForDetections.
+
+registerRecognizer({
+  id: "qr_code",
+  label: "QR Code",
+  priority: 9,
+  defaultAction: "redact",
+  badgeClass: "bg-purple-500/15 text-purple-400",
+  specificity: 0.5,
+  check: "error correction",
+});
+
+// Product barcodes are usually harmless; tracking and membership numbers are not
+registerRecognizer({
+  id: "barcode",
+  label: "Barcode",
+  priority: 9,
+  defaultAction: "review",
+  badgeClass: "bg-purple-500/15 text-purple-400",
+  specificity: 0.2,
+  check: "checksum",
+});
@@ -0,0 +1,185 @@
+import { isCreditCard, isEmail, isIPv4, isPhone, isUrl, luhnOk } from "@/lib/pii";
+import { findNameCandidates, hasNameEvidence, scoreName } from "@/lib/names";
+import { parsePhoneNumber } from "@/lib/phone";
+import { registerRecognizer, type RecognizerOptions } from "@/lib/recognizers/registry";
+
+// Built-in recognizers for the original contact/payment PII types
+
+registerRecognizer({
+  id: "email",
+  label: "Email",
+  priority: 10,
+  defaultAction: "redact",
+  badgeClass: "bg-blue-500/15 text-blue-400",
+  specificity: 0.8,
+  check: "address structure",
+  context: /\be-?mail\b/i,
+  // Handles: "john.doe@company.com", "john . doe @ company . com", "josé@müller.de", etc.
+  pattern: /([\p{L}\p{N}][\p{L}\p{M}\p{N}._%-]*\s*[@]\s*[\p{L}\p{N}][\p{L}\p{M}\p{N}.-]*\s*[.]\s*\p{L}{2,})/giu,
+  clean: (match) =>
+    match
+      .replace(/\s+/g, "") // Remove all spaces
+      .replace(/[^\p{L}\p{M}\p{N}_.@\-]/gu, "") // Keep only letters and digits in any script, ., @, -
+      .replace(/[@]+/g, "@") // Ensure only one @
+      .replace(/[.]+/g, "."), // Ensure no double dots
+  validate: (text) => {
+    const hasAt = text.includes("@");
+    const hasDot = text.includes(".");
+    const hasDomainPart = hasAt && text.split("@")[1].includes(".");
+    const hasValidStructure = hasAt && hasDot && hasDomainPart && text.length >= 5 && !text.startsWith("@");
+
+    // Additional checks for common OCR issues
+    const noDoubleAt = (text.match(/@/g) || []).length === 1;
+    const hasUsername = hasAt && text.split("@")[0].length > 0;
+    const hasDomain = hasAt && text.split("@")[1].length > 0;
+
+    return hasValidStructure && noDoubleAt && hasUsername && hasDomain;
+  },
+  isStrongMatch: (text) => text.includes("@") && text.includes(".") && text.length > 5,
+  classify: isEmail,
+  isHighQuality: (text) => {
+    const clean = text.trim().replace(/\s+/g, "");
+    // Must have @ and . with some reasonable structure
+    return clean.includes("@") && clean.includes(".") && clean.length >= 5 && !clean.startsWith("@");
+  },
+  lengthOk: (text) => text.trim().length >= 6 && text.trim().length <= 254,
+});
+
+const parsePhone = (text: string, options: RecognizerOptions) => parsePhoneNumber(text, options.defaultRegion);
+const phoneDigitCount = (text: string) => text.replace(/\s*(?:ext\.?|x|#)\s*\d{1,6}$/i, "").replace(/\D/g, "").length;
+
+registerRecognizer({
+  id: "phone",
+  label: "Phone",
+  priority: 20,
+  defaultAction: "redact",
+  badgeClass: "bg-emerald-500/15 text-emerald-400",
+  specificity: 0.6,
+  check: "numbering plan",
+  context: /\b(?:phone|tel|mobile|cell|fax|call)\b/i,
+  // Digit groups joined by single separators, so two numbers a wide gap apart stay separate.
+  // Handles "+44 (0)20 7946 0958", "415.555.0123", "(415) 555-0123 ext. 12", etc.
+  pattern: /(?<![\w+.])((?:\+\s?)?\(?\d{1,4}\)?(?:[\s.\-]?\(?\d{1,5}\)?){1,6}(?:\s*(?:ext\.?|x|#)\s*\d{1,6})?)(?![\d:])/gi,
+  clean: (match) => match.replace(/\s+/g, " ").trim(),
+  // The numbering plan does the real filtering: wrong lengths, dates and IDs fail to parse
+  validate: (text, options) => parsePhone(text, options) !== null,
+  isStrongMatch: (text, options) => (parsePhone(text, options)?.score ?? 0) >= 1,
+  confidenceFactor: (text, options) => parsePhone(text, options)?.score ?? 0,
+  classify: (text, options) => isPhone(text, options.defaultRegion),
+  describe: (text, options) => {
+    const parsed = parsePhone(text, options);
+    if (!parsed) return undefined;
+    return `${parsed.region} ${parsed.e164}${parsed.extension ? ` ext. ${parsed.extension}` : ""}`;
+  },
+  isHighQuality: (text) => phoneDigitCount(text) >= 10 && phoneDigitCount(text) <= 15,
+  lengthOk: (text) => phoneDigitCount(text) >= 7 && phoneDigitCount(text) <= 15,
+});
+
+registerRecognizer({
+  id: "url",
+  label: "URL",
+  priority: 30,
+  defaultAction: "redact",
+  badgeClass: "bg-cyan-500/15 text-cyan-400",
+  specificity: 0.5,
+  check: "known host",
+  context: /\b(?:website|url|link|visit)\b/i,
+  // Handles: "https://example.com", "https : // example . com", etc.
+  pattern: /((?:https?\s*[:;]\s*\/\s*\/\s*)?[a-zA-Z0-9][\w\-]*(?:\s*[.]\s*[a-zA-Z0-9][\w\-]*)+(?:\s*\/[^\s]*)?)/gi,
+  clean: (match) =>
+    match
+      .replace(/\s+/g, "") // Remove spaces
+      .replace(/[:;]\s*\/\s*\//g, "://") // Fix protocol
+      .replace(/\s*\.\s*/g, ".") // Fix dots
+      .replace(/[^a-zA-Z0-9\-._~:/?#[\]@!$&'()*+,;=%]/g, ""), // Keep URL-safe chars
+  validate: (text) => {
+    const lower = text.toLowerCase();
+    const hasProtocolOrWww = lower.includes("http") || lower.includes("www.") || /\.(com|org|net|edu|gov|co|io|me)$/i.test(text);
+    const hasDotAndLength = text.includes(".") && text.length >= 4;
+    // Only exclude if it looks like an email
+    const notEmailLike = !(text.includes("@") && text.split("@")[0].length > 1);
+    const isCommonDomain = /\.(com|org|net|edu|gov|co|io|me|ly|tv)$/i.test(text);
+    // Dotted digit runs ("415.555.0123", "ext.12") are phone numbers or versions, not hosts
+    const host = text.replace(/^https?:\/\//i, "").split(/[\/?#:]/)[0];
+    const tld = host.split(".").pop() || "";
+    const hostHasTld = /[a-z]/i.test(tld) || lower.startsWith("http");
+    // A capitalised word after the dot starts a sentence: "Yes. Your last login"
+    const sentenceBreak = !lower.startsWith("http") && /^[A-Z][a-z]/.test(tld);
+    return (((hasProtocolOrWww || hasDotAndLength) && notEmailLike) || isCommonDomain) && hostHasTld && !sentenceBreak;
+  },
+  isStrongMatch: (text) => text.includes("example.com") || text.includes("https://") || text.includes("www."),
+  classify: isUrl,
+  isHighQuality: (text) => {
+    const clean = text.trim().replace(/\s+/g, "");
+    return (clean.includes(".") && clean.length >= 4) || clean.toLowerCase().startsWith("http");
+  },
+  lengthOk: (text) => text.trim().length >= 8 && text.trim().length <= 2083,
+});
+
+const isDottedQuad = (text: string) => {
+  const parts = text.split(".");
+  return parts.length === 4 && parts.every((part) => /^\d{1,3}$/.test(part.trim()) && parseInt(part, 10) <= 255);
+};
+
+registerRecognizer({
+  id: "ipv4",
+  label: "IP",
+  priority: 40,
+  defaultAction: "redact",
+  badgeClass: "bg-violet-500/15 text-violet-400",
+  specificity: 0.7,
+  check: "octet ranges",
+  context: /\bIP\b|\baddress\b|\bhost\b/i,
+  // Handles: "192.168.1.1", "192 . 168 . 1 . 1", etc.
+  pattern: /(\d{1,3}\s*[.]\s*\d{1,3}\s*[.]\s*\d{1,3}\s*[.]\s*\d{1,3})/g,
+  clean: (match) => match.replace(/\s+/g, ""),
+  validate: isDottedQuad,
+  isStrongMatch: isDottedQuad,
+  classify: isIPv4,
+  isHighQuality: (text) => isDottedQuad(text.trim().replace(/\s+/g, "")),
+  lengthOk: (text) => text.trim().length >= 7 && text.trim().length <= 15,
+});
+
+const ccDigitCountOk = (text: string) => {
+  const digits = text.replace(/\D/g, "").length;
+  return digits >= 13 && digits <= 19;
+};
+
+registerRecognizer({
+  id: "credit_card",
+  label: "Credit Card",
+  priority: 50,
+  defaultAction: "redact",
+  badgeClass: "bg-amber-500/15 text-amber-400",
+  specificity: 0.85,
+  check: "Luhn checksum",
+  context: /\b(?:card|visa|mastercard|amex|cc|credit|debit)\b/i,
+  // Handles: "4111 1111 1111 1111", "4111-1111-1111-1111", etc.
+  pattern: /(\d\s*\d\s*\d\s*\d\s*[\s\-]?\s*\d\s*\d\s*\d\s*\d\s*[\s\-]?\s*\d\s*\d\s*\d\s*\d\s*[\s\-]?\s*\d\s*\d\s*\d\s*\d)/g,
+  // Extract only digits for credit card validation
+  clean: (match) => match.replace(/\D/g, ""),
+  validate: luhnOk,
+  isStrongMatch: ccDigitCountOk,
+  classify: isCreditCard,
+  isHighQuality: ccDigitCountOk,
+  lengthOk: ccDigitCountOk,
+});
+
+const NAME_MIN_SCORE = 0.5;
+
+registerRecognizer({
+  id: "name",
+  label: "Name",
+  priority: 90,
+  defaultAction: "review",
+  badgeClass: "bg-pink-500/15 text-pink-400",
+  specificity: 0.3,
+  check: "name gazetteer",
+  context: /\b(?:name|from|to|by|contact)\b/i,
+  findCandidates: (lineText) => findNameCandidates(lineText, NAME_MIN_SCORE),
+  validate: (text) => scoreName(text).score >= NAME_MIN_SCORE,
+  // The gazetteer score scales the OCR confidence, so the threshold slider weeds out weak names
+  confidenceFactor: (text) => scoreName(text).score,
+  classify: (text) => scoreName(text).score >= NAME_MIN_SCORE && hasNameEvidence(text),
+  lengthOk: (text) => text.trim().length >= 3 && text.trim().length <= 64,
+});
@@ -0,0 +1,106 @@
+import { bitcoinAddressOk, eip55ChecksumOk, ethereumAddressOk, litecoinAddressOk, solanaAddressOk } from "@/lib/wallets";
+import { registerRecognizer, type Recognizer } from "@/lib/recognizers/registry";
+
+// Cryptocurrency wallet recognizers for exchange, finance and support screenshots.
+// Long addresses are often misread by a character, which breaks the checksum, so
+// the patterns accept any alphanumerics in the address body and a failed
+// checksum only lowers the confidence instead of dropping the match.
+
+const WALLET_BADGE = "bg-yellow-500/15 text-yellow-400";
+
+// A checksum that fails on an otherwise well-formed address is most likely an OCR misread
+const NEAR_MISS = 0.55;
+
+const compact = (match: string) => match.replace(/\s+/g, "");
+
+// Base58 bodies are mixed-case with digits; requiring all three keeps long words out
+const looksRandom = (body: string) => /\d/.test(body) && /[a-z]/.test(body) && /[A-Z]/.test(body);
+
+const isBitcoinShape = (text: string) =>
+  (/^[13][0-9A-Za-z]{25,34}$/.test(text) && looksRandom(text.slice(1))) ||
+  /^bc1(?:[0-9a-z]{11,71}|[0-9A-Z]{11,71})$/i.test(text);
+
+const isLitecoinShape = (text: string) =>
+  (/^[LM][0-9A-Za-z]{25,33}$/.test(text) && looksRandom(text.slice(1))) ||
+  /^ltc1(?:[0-9a-z]{11,71}|[0-9A-Z]{11,71})$/i.test(text);
+
+// OCR reads the "0" of "0x" as a capital O
+const cleanEthereum = (match: string) => compact(match).replace(/^O/, "0");
+const isEthereumShape = (text: string) => /^0x[0-9a-fA-F]{40}$/.test(text);
+const isChecksummed = (text: string) => /[a-f]/.test(text.slice(2)) && /[A-F]/.test(text.slice(2));
+
+const isSolanaShape = (text: string) => /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(text) && looksRandom(text);
+
+const cryptoRecognizers: Recognizer[] = [
+  {
+    id: "btc_address",
+    label: "Bitcoin Address",
+    priority: 50,
+    defaultAction: "redact",
+    badgeClass: WALLET_BADGE,
+    specificity: 0.85,
+    check: "Base58Check/Bech32 checksum",
+    context: /\b(?:bitcoin|btc)\b|\bwallet\b/i,
+    pattern: /(?<![\w])((?:[13][0-9A-Za-z]{25,34}|bc1[0-9a-zA-Z]{11,71}))(?![\w])/g,
+    clean: compact,
+    validate: isBitcoinShape,
+    isStrongMatch: bitcoinAddressOk,
+    confidenceFactor: (text) => (bitcoinAddressOk(text) ? 1 : NEAR_MISS),
+    classify: (s) => isBitcoinShape(compact(s)),
+    lengthOk: (text) => compact(text).length >= 26 && compact(text).length <= 74,
+  },
+  {
+    id: "eth_address",
+    label: "Ethereum Address",
+    priority: 51,
+    defaultAction: "redact",
+    badgeClass: WALLET_BADGE,
+    specificity: 0.9,
+    check: "EIP-55 checksum",
+    context: /\b(?:ethereum|eth|erc-?20)\b|\bwallet\b/i,
+    pattern: /(?<![\w])([0O]x[0-9a-fA-F]{40})(?![\w])/g,
+    clean: cleanEthereum,
+    validate: isEthereumShape,
+    // Only mixed-case addresses carry the EIP-55 checksum
+    isStrongMatch: (text) => isChecksummed(text) && eip55ChecksumOk(text),
+    confidenceFactor: (text) => (!ethereumAddressOk(text) ? NEAR_MISS : isChecksummed(text) ? 1 : 0.85),
+    classify: (s) => isEthereumShape(cleanEthereum(s)),
+    lengthOk: (text) => compact(text).length === 42,
+  },
+  {
+    id: "ltc_address",
+    label: "Litecoin Address",
+    priority: 52,
+    defaultAction: "redact",
+    badgeClass: WALLET_BADGE,
+    specificity: 0.85,
+    check: "Base58Check/Bech32 checksum",
+    context: /\b(?:litecoin|ltc)\b|\bwallet\b/i,
+    // "3…" P2SH addresses are shared with Bitcoin and reported there
+    pattern: /(?<![\w])((?:[LM][0-9A-Za-z]{25,33}|ltc1[0-9a-zA-Z]{11,71}))(?![\w])/g,
+    clean: compact,
+    validate: isLitecoinShape,
+    isStrongMatch: litecoinAddressOk,
+    confidenceFactor: (text) => (litecoinAddressOk(text) ? 1 : NEAR_MISS),
+    classify: (s) => isLitecoinShape(compact(s)),
+    lengthOk: (text) => compact(text).length >= 26 && compact(text).length <= 75,
+  },
+  {
+    id: "sol_address",
+    label: "Solana Address",
+    priority: 53,
+    defaultAction: "redact",
+    badgeClass: WALLET_BADGE,
+    // No checksum: any Base58 string that decodes to 32 bytes is a valid key
+    specificity: 0.6,
+    check: "32-byte key",
+    context: /\b(?:solana|sol|phantom|wallet)\b/i,
+    pattern: /(?<![\w])([1-9A-HJ-NP-Za-km-z]{32,44})(?![\w])/g,
+    validate: (text) => isSolanaShape(text) && solanaAddressOk(text),
+    confidenceFactor: () => 0.75,
+    classify: (s) => isSolanaShape(s) && solanaAddressOk(s),
+    lengthOk: (text) => text.length >= 32 && text.length <= 44,
+  },
+];
+
+cryptoRecognizers.forEach(registerRecognizer);
@@ -0,0 +1,13 @@
+import { registerRecognizer } from "@/lib/recognizers/registry";
+
+// Panel entry for matches of the user's own rules. The rules are matched in
+// processOcrForDetections, since they come from settings rather than code.
+
+registerRecognizer({
+  id: "custom",
+  label: "Custom Rule",
+  priority: 1,
+  defaultAction: "redact",
+  badgeClass: "bg-sky-500/15 text-sky-400",
+  specificity: 1,
+});
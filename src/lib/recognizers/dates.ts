@@ -0,0 +1,73 @@
+import { findDates, isPlausibleBirthDate, parseDate } from "@/lib/dates";
+import { registerRecognizer, type Recognizer, type RecognizerOptions } from "@/lib/recognizers/registry";
+
+// Date recognizers. A date next to a birth label, or one old enough to be a
+// birthday, is a `dob` and redacted; any other date is only offered for review
+// so chat and log timestamps are not blacked out by default.
+
+const DOB_LABEL =
+  /\bD\.?O\.?B\b|\bborn\b|date\s+of\s+birth|\bbirth\s*date\b|\bbirthday\b|\bgeburtsdatum\b|date\s+de\s+naissance|fecha\s+de\s+nacimiento/i;
+
+// Regions that write the month first: 03/04/1990 is March 4th there
+const MONTH_FIRST_REGIONS = new Set(["US", "CA", "PH", "FM", "MH", "PW"]);
+
+const isMonthFirst = (options: RecognizerOptions) => MONTH_FIRST_REGIONS.has(options.defaultRegion ?? "US");
+
+const parse = (text: string, options: RecognizerOptions) => parseDate(text, isMonthFirst(options));
+
+const birthRange = (text: string, options: RecognizerOptions) => {
+  const parsed = parse(text, options);
+  return parsed !== null && isPlausibleBirthDate(parsed);
+};
+
+function isDobCandidate(date: string, lineText: string): boolean {
+  // Recognizer options aren't available to finders; the day/month order doesn't move the year anyway
+  const parsed = parseDate(date);
+  return parsed !== null && (DOB_LABEL.test(lineText) || isPlausibleBirthDate(parsed));
+}
+
+const describeDate = (text: string, options: RecognizerOptions) => {
+  const parsed = parse(text, options);
+  if (!parsed) return undefined;
+  return parsed.ambiguous ? `${parsed.iso} (day/month ambiguous)` : parsed.iso;
+};
+
+const DATE_LENGTH_OK = (text: string) => text.trim().length >= 6 && text.trim().length <= 40;
+
+const dateRecognizers: Recognizer[] = [
+  {
+    id: "dob",
+    label: "Date of Birth",
+    priority: 65,
+    defaultAction: "redact",
+    badgeClass: "bg-teal-500/15 text-teal-400",
+    specificity: 0.6,
+    check: "calendar date",
+    findCandidates: (lineText) => findDates(lineText).filter((date) => isDobCandidate(date, lineText)),
+    clean: (match) => match.replace(/\s+/g, " ").trim(),
+    validate: (text, options) => parse(text, options) !== null,
+    // A birth label vouches for the date; one that is only old enough to be a
+    // birthday (an invoice, "joined 1998") has to clear the threshold like anything else
+    isStrongMatch: (_text, _options, lineText) => DOB_LABEL.test(lineText),
+    classify: (s, options) => findDates(s).length === 1 && findDates(s)[0] === s && birthRange(s, options),
+    describe: describeDate,
+    lengthOk: DATE_LENGTH_OK,
+  },
+  {
+    id: "date",
+    label: "Date",
+    priority: 95,
+    defaultAction: "review",
+    badgeClass: "bg-slate-500/15 text-slate-400",
+    specificity: 0.4,
+    check: "calendar date",
+    findCandidates: (lineText) => findDates(lineText).filter((date) => !isDobCandidate(date, lineText)),
+    clean: (match) => match.replace(/\s+/g, " ").trim(),
+    validate: (text, options) => parse(text, options) !== null,
+    classify: (s, options) => findDates(s).length === 1 && findDates(s)[0] === s && parse(s, options) !== null,
+    describe: describeDate,
+    lengthOk: DATE_LENGTH_OK,
+  },
+];
+
+dateRecognizers.forEach(registerRecognizer);
@@ -0,0 +1,15 @@
+import { registerRecognizer } from "@/lib/recognizers/registry";
+
+// Panel entry for values found next to a field label ("Password:", "Order #")
+// that match no more specific recognizer. The pairs are found across lines in
+// processOcrForDetections, so there is no pattern here.
+
+registerRecognizer({
+  id: "field_value",
+  label: "Labeled Field",
+  priority: 75,
+  defaultAction: "redact",
+  badgeClass: "bg-indigo-500/15 text-indigo-400",
+  specificity: 0.5,
+  check: "field label",
+});
@@ -0,0 +1,56 @@
+// Public entry point for PII recognizers. Importing this module registers the
+// built-in recognizer families; add new families to the import list below.
+import "@/lib/recognizers/core";
+import "@/lib/recognizers/network";
+import "@/lib/recognizers/secrets";
+import "@/lib/recognizers/banking";
+import "@/lib/recognizers/crypto";
+import "@/lib/recognizers/nationalIds";
+import "@/lib/recognizers/address";
+import "@/lib/recognizers/dates";
+import "@/lib/recognizers/custom";
+import "@/lib/recognizers/fields";
+import "@/lib/recognizers/codes";
+import "@/lib/recognizers/avatars";
+
+import { sanitize } from "@/lib/pii";
+import { getActiveRecognizers, type PiiType, type RecognizerOptions } from "@/lib/recognizers/registry";
+
+export * from "@/lib/recognizers/registry";
+export { findAddressBlocks, type AddressBlock, type AddressLine } from "@/lib/recognizers/address";
+
+export function classifyPii(text: string, options: RecognizerOptions = {}): PiiType {
+  const s = sanitize(text);
+
+  // Debug logging - remove in production
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`Classifying: "${text}" -> sanitized: "${s}"`);
+  }
+
+  for (const recognizer of getActiveRecognizers(options)) {
+    if (recognizer.classify?.(s, options)) return recognizer.id;
+  }
+  return "other";
+}
+
+// Additional utility function to help with debugging
+export function debugPiiClassification(text: string, options: RecognizerOptions = {}): {
+  type: PiiType;
+  sanitized: string;
+  checks: Record<string, boolean>
+} {
+  const sanitized = sanitize(text);
+  const checks: Record<string, boolean> = {};
+  let type: PiiType = "other";
+  for (const recognizer of getActiveRecognizers(options)) {
+    if (!recognizer.classify) continue;
+    checks[recognizer.id] = recognizer.classify(sanitized, options);
+    if (checks[recognizer.id] && type === "other") type = recognizer.id;
+  }
+
+  return {
+    type,
+    sanitized,
+    checks
+  };
+}
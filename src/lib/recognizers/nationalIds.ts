@@ -0,0 +1,117 @@
+import { aadhaarOk, bsnOk, ninoOk, sinOk, spanishIdOk, ssnOk } from "@/lib/pii";
+import { registerRecognizer, withContext, type Recognizer } from "@/lib/recognizers/registry";
+
+// National ID recognizers for HR and support screenshots, one per country
+
+const ID_BADGE = "bg-fuchsia-500/15 text-fuchsia-400";
+
+const digitsOnly = (match: string) => match.replace(/\D/g, "");
+
+// Dashed SSNs are distinctive; a bare 9-digit run only counts next to an SSN label
+function findSsnCandidates(lineText: string): string[] {
+  const dashed = [...lineText.matchAll(/\b(\d{3}\s*[-\s]\s*\d{2}\s*[-\s]\s*\d{4})\b/g)].map((m) => m[1]);
+  const bare = withContext(/\bSSN\b|social\s+security/i, /\b(\d{9})\b/g)(lineText);
+  return [...dashed, ...bare];
+}
+
+const idRecognizers: Recognizer[] = [
+  {
+    id: "us_ssn",
+    label: "US SSN",
+    priority: 55,
+    defaultAction: "redact",
+    badgeClass: ID_BADGE,
+    specificity: 0.8,
+    check: "SSA number ranges",
+    context: /\bSSN\b|social\s+security/i,
+    country: "US",
+    findCandidates: findSsnCandidates,
+    clean: (match) => {
+      const d = digitsOnly(match);
+      return `${d.slice(0, 3)}-${d.slice(3, 5)}-${d.slice(5)}`;
+    },
+    validate: ssnOk,
+    isStrongMatch: ssnOk,
+    classify: (s) => /^\d{3}-\d{2}-\d{4}$/.test(s.replace(/\s+/g, "")) && ssnOk(s),
+  },
+  {
+    id: "uk_nino",
+    label: "UK NI Number",
+    priority: 56,
+    defaultAction: "redact",
+    badgeClass: ID_BADGE,
+    specificity: 0.85,
+    check: "NINO prefix rules",
+    context: /\bNINO\b|national\s+insurance|\bNI\s+(?:no|number)\b/i,
+    country: "GB",
+    // "QQ 12 34 56 C", with or without the customary spacing
+    pattern: /\b([A-Z]{2}\s*\d{2}\s*\d{2}\s*\d{2}\s*[A-D])\b/g,
+    clean: (match) => match.replace(/\s+/g, "").toUpperCase(),
+    validate: ninoOk,
+    isStrongMatch: ninoOk,
+    classify: ninoOk,
+  },
+  {
+    id: "in_aadhaar",
+    label: "Aadhaar",
+    priority: 57,
+    defaultAction: "redact",
+    badgeClass: ID_BADGE,
+    specificity: 0.7,
+    check: "Verhoeff checksum",
+    country: "IN",
+    // One in ten 12-digit numbers (tracking, order refs) passes Verhoeff, so a label is required
+    findCandidates: withContext(/aadhaar|\bUID\b/i, /\b([2-9]\d{3}\s*\d{4}\s*\d{4})\b/g),
+    clean: digitsOnly,
+    validate: aadhaarOk,
+    isStrongMatch: aadhaarOk,
+  },
+  {
+    id: "nl_bsn",
+    label: "Dutch BSN",
+    priority: 58,
+    defaultAction: "redact",
+    badgeClass: ID_BADGE,
+    specificity: 0.6,
+    check: "11-proef",
+    country: "NL",
+    // About one in eleven 9-digit numbers passes the 11-proef, so a label is required
+    findCandidates: withContext(/\bBSN\b|burgerservicenummer|sofi-?nummer/i, /\b(\d{4}\s*\.?\s*\d{2}\s*\.?\s*\d{3}|\d{9})\b/g),
+    clean: digitsOnly,
+    validate: bsnOk,
+    isStrongMatch: bsnOk,
+  },
+  {
+    id: "es_dni",
+    label: "Spanish DNI/NIE",
+    priority: 59,
+    defaultAction: "redact",
+    badgeClass: ID_BADGE,
+    specificity: 0.85,
+    check: "check letter",
+    context: /\bDNI\b|\bNIE\b|\bNIF\b/i,
+    country: "ES",
+    pattern: /\b([XYZ]\s*-?\s*\d{7}\s*-?\s*[A-Z]|\d{8}\s*-?\s*[A-Z])\b/gi,
+    clean: (match) => match.replace(/[\s\-]+/g, "").toUpperCase(),
+    validate: spanishIdOk,
+    isStrongMatch: spanishIdOk,
+    classify: spanishIdOk,
+  },
+  {
+    id: "ca_sin",
+    label: "Canadian SIN",
+    priority: 60,
+    defaultAction: "redact",
+    badgeClass: ID_BADGE,
+    specificity: 0.6,
+    check: "Luhn checksum",
+    country: "CA",
+    // One in ten 3-3-3 numbers (tickets, phone fragments) passes Luhn, so a label is required
+    findCandidates: withContext(/\bSIN\b|social\s+insurance/i, /\b(\d{3}\s*[-\s]\s*\d{3}\s*[-\s]\s*\d{3})\b/g),
+    clean: digitsOnly,
+    validate: sinOk,
+    isStrongMatch: sinOk,
+  },
+];
+
+idRecognizers.forEach(registerRecognizer);
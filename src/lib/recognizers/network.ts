@@ -0,0 +1,70 @@
+import { cidrOk, ipv6Ok, macOk, normalizeNetworkId } from "@/lib/pii";
+import { registerRecognizer, type Recognizer } from "@/lib/recognizers/registry";
+
+// Network identifier recognizers for terminal, router and cloud console screenshots.
+// They sort ahead of IPv4 so a CIDR block or an IPv6 address with an IPv4 tail wins
+// over the dotted quad inside it when confidences tie.
+
+const NETWORK_BADGE = "bg-violet-500/15 text-violet-400";
+
+// Hex digits plus the letters OCR reads in place of 0 and 1
+const HEX = "[0-9A-Fa-fOolI]";
+
+const networkRecognizers: Recognizer[] = [
+  {
+    id: "cidr",
+    label: "CIDR Block",
+    priority: 36,
+    defaultAction: "redact",
+    badgeClass: NETWORK_BADGE,
+    specificity: 0.9,
+    check: "address and prefix",
+    context: /\b(?:subnet|cidr|network|route|vpc)\b/i,
+    // "10.0.0.0/16", "2001:db8::/32"
+    pattern: new RegExp(
+      `(?<![\\w:.])((?:[\\dOolI]{1,3}\\s*\\.\\s*){3}[\\dOolI]{1,3}\\s*\\/\\s*\\d{1,2}|(?:${HEX}{0,4}:){2,7}[0-9A-Fa-fOolI.]{0,15}\\/\\d{1,3})(?!\\w)`,
+      "g"
+    ),
+    clean: normalizeNetworkId,
+    validate: cidrOk,
+    isStrongMatch: cidrOk,
+    classify: cidrOk,
+    lengthOk: (text) => normalizeNetworkId(text).length >= 9 && normalizeNetworkId(text).length <= 43,
+  },
+  {
+    id: "ipv6",
+    label: "IPv6",
+    priority: 37,
+    defaultAction: "redact",
+    badgeClass: NETWORK_BADGE,
+    specificity: 0.85,
+    check: "address syntax",
+    context: /\b(?:inet6|ipv6|IP)\b/i,
+    // Full, "::"-compressed and IPv4-mapped forms; the validator sorts out clock times and the like
+    pattern: new RegExp(`(?<![\\w:.])((?:${HEX}{0,4}:){2,7}(?:\\d{1,3}(?:\\.\\d{1,3}){3}|${HEX}{1,4})?)(?![\\w:/])`, "g"),
+    clean: normalizeNetworkId,
+    validate: ipv6Ok,
+    isStrongMatch: ipv6Ok,
+    classify: ipv6Ok,
+    lengthOk: (text) => normalizeNetworkId(text).length >= 6 && normalizeNetworkId(text).length <= 45,
+  },
+  {
+    id: "mac_address",
+    label: "MAC Address",
+    priority: 38,
+    defaultAction: "redact",
+    badgeClass: NETWORK_BADGE,
+    specificity: 0.85,
+    check: "address syntax",
+    context: /\b(?:mac|ether|hwaddr|bssid)\b/i,
+    // "00:1A:2B:3C:4D:5E", "00-1A-2B-3C-4D-5E", Cisco "001a.2b3c.4d5e"
+    pattern: new RegExp(`(?<![\\w:\\-.])((?:${HEX}{2}[:\\-]){5}${HEX}{2}|(?:${HEX}{4}\\.){2}${HEX}{4})(?![\\w:\\-])`, "g"),
+    clean: normalizeNetworkId,
+    validate: macOk,
+    isStrongMatch: macOk,
+    classify: macOk,
+    lengthOk: (text) => normalizeNetworkId(text).length >= 14 && normalizeNetworkId(text).length <= 17,
+  },
+];
+
+networkRecognizers.forEach(registerRecognizer);
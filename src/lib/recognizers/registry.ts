@@ -0,0 +1,116 @@
+import type { CustomRule } from "@/lib/customRules";
+
+// Recognizer registry: each PII detector declares itself once and the line
+// scanner, whole-line classifier and review panel are all driven from here.
+
+export type PiiType =
+  | "email" | "phone" | "url" | "ipv4" | "credit_card" | "name"
+  | "ipv6" | "mac_address" | "cidr"
+  | "private_key" | "aws_access_key" | "aws_secret_key" | "github_token" | "gitlab_token"
+  | "slack_token" | "stripe_key" | "jwt" | "secret"
+  | "iban" | "uk_bank_account" | "routing_number" | "swift_bic"
+  | "btc_address" | "eth_address" | "ltc_address" | "sol_address"
+  | "us_ssn" | "uk_nino" | "in_aadhaar" | "nl_bsn" | "es_dni" | "ca_sin"
+  | "address" | "dob" | "date"
+  | "custom" | "field_value" | "qr_code" | "barcode" | "avatar"
+  | "other";
+
+export type RecognizerId = Exclude<PiiType, "other">;
+
+// "redact" detections start out accepted in the review panel, "review" ones wait for the user
+export type RecognizerAction = "redact" | "review";
+
+export type RecognizerOptions = {
+  disabledCountries?: string[];
+  // Region assumed for phone numbers written without a country code
+  defaultRegion?: string;
+  customRules?: CustomRule[];
+  // Extra field labels whose values are redacted, on top of the built-in ones
+  fieldLabels?: string[];
+};
+
+export type Recognizer = {
+  id: RecognizerId;
+  label: string;
+  // Lower runs first when classifying and sorts first in the panel
+  priority: number;
+  defaultAction: RecognizerAction;
+  badgeClass: string;
+  // ISO 3166 alpha-2 code for country-specific recognizers the user can switch off
+  country?: string;
+  // Global regex for in-line candidates; capture group 1 is the candidate
+  pattern?: RegExp;
+  // Custom candidate finder for detectors a single regex can't express
+  findCandidates?: (lineText: string) => string[];
+  clean?: (raw: string) => string;
+  // Validates a cleaned in-line candidate
+  validate?: (cleaned: string, options: RecognizerOptions) => boolean;
+  // How distinctive the pattern is on its own, 0-1 (default 0.5)
+  specificity?: number;
+  // Name of the validator, for the confidence breakdown ("Luhn checksum")
+  check?: string;
+  // Labels that make a match on the same line more likely ("Card number", "Tel")
+  context?: RegExp;
+  // Clearly valid matches that are kept even below the confidence threshold;
+  // `lineText` is the line the match was found on
+  isStrongMatch?: (cleaned: string, options: RecognizerOptions, lineText: string) => boolean;
+  // Scales OCR confidence by how well the candidate validated (1 = checksum passed)
+  confidenceFactor?: (cleaned: string, options: RecognizerOptions) => number;
+  // Whole-line classifier; recognizers without one never claim a full line
+  classify?: (sanitized: string, options: RecognizerOptions) => boolean;
+  // Short annotation shown next to the detection, e.g. a phone number's parsed country
+  describe?: (cleaned: string, options: RecognizerOptions) => string | undefined;
+  // Extra structure check before a whole-line classification is trusted
+  isHighQuality?: (text: string) => boolean;
+  // Plausible text length, used when re-filtering with the confidence slider
+  lengthOk?: (text: string) => boolean;
+};
+
+const registry = new Map<RecognizerId, Recognizer>();
+
+export function registerRecognizer(recognizer: Recognizer): void {
+  registry.set(recognizer.id, recognizer);
+}
+
+export function getRecognizers(): Recognizer[] {
+  return [...registry.values()].sort((a, b) => a.priority - b.priority);
+}
+
+// Recognizers the current settings allow to run
+export function getActiveRecognizers(options: RecognizerOptions = {}): Recognizer[] {
+  const disabled = new Set(options.disabledCountries ?? []);
+  return getRecognizers().filter((r) => !r.country || !disabled.has(r.country));
+}
+
+export function getRecognizerCountries(): string[] {
+  return [...new Set(getRecognizers().flatMap((r) => (r.country ? [r.country] : [])))].sort();
+}
+
+export function getRecognizer(id: string): Recognizer | undefined {
+  return registry.get(id as RecognizerId);
+}
+
+export function recognizerLabel(id: string): string {
+  return getRecognizer(id)?.label ?? id;
+}
+
+export function findCandidates(recognizer: Recognizer, lineText: string): string[] {
+  if (recognizer.findCandidates) return recognizer.findCandidates(lineText);
+  if (!recognizer.pattern) return [];
+  const regex = new RegExp(recognizer.pattern.source, recognizer.pattern.flags.includes("g") ? recognizer.pattern.flags : `${recognizer.pattern.flags}g`);
+  const out: string[] = [];
+  let match;
+  while ((match = regex.exec(lineText)) !== null) {
+    out.push(match[1] ?? match[0]);
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return out;
+}
+
+// Candidate finder that only yields pattern matches on lines carrying one of the given labels
+export function withContext(label: RegExp, pattern: RegExp) {
+  return (lineText: string): string[] => {
+    if (!label.test(lineText)) return [];
+    return [...lineText.matchAll(pattern)].map((m) => m[1]);
+  };
+}
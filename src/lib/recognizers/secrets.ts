@@ -0,0 +1,180 @@
+import { registerRecognizer, type Recognizer } from "@/lib/recognizers/registry";
+
+// Credential recognizers for terminal, config and dashboard screenshots
+
+const SECRET_BADGE = "bg-rose-500/15 text-rose-400";
+
+// OCR tends to break long tokens at punctuation, so collapse injected spaces
+const collapse = (match: string) => match.replace(/\s+/g, "");
+
+// Shannon entropy in bits per character
+export function shannonEntropy(s: string): number {
+  if (!s) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of s) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let bits = 0;
+  counts.forEach((n) => {
+    const p = n / s.length;
+    bits -= p * Math.log2(p);
+  });
+  return bits;
+}
+
+function decodeBase64Url(segment: string): string | null {
+  try {
+    const b64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+    return atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  } catch {
+    return null;
+  }
+}
+
+export function isJwt(token: string): boolean {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts.some((p) => !/^[A-Za-z0-9_-]+$/.test(p))) return false;
+  const header = decodeBase64Url(parts[0]);
+  if (!header) return false;
+  try {
+    const parsed = JSON.parse(header) as { alg?: unknown; typ?: unknown };
+    return typeof parsed === "object" && parsed !== null && typeof parsed.alg === "string";
+  } catch {
+    return false;
+  }
+}
+
+function looksRandom(s: string): boolean {
+  if (s.length < 16) return false;
+  // Real secrets mix character classes; words and paths rarely clear 3.5 bits/char
+  const classes = [/[a-z]/, /[A-Z]/, /\d/].filter((re) => re.test(s)).length;
+  return classes >= 2 && shannonEntropy(s) >= 3.5;
+}
+
+// Whole-string variant of a recognizer, for classifying a line or decoded payload
+const wholeMatch = (pattern: RegExp, validate: (s: string) => boolean = () => true) => {
+  const anchored = new RegExp(`^(?:${pattern.source})$`, pattern.flags.replace("g", ""));
+  return (s: string) => {
+    const compact = collapse(s);
+    return anchored.test(compact) && validate(compact);
+  };
+};
+
+const AWS_ACCESS_KEY = /\b((?:AKIA|ASIA|AGPA|AIDA|AROA|AIPA|ANPA|ANVA|A3T[A-Z0-9])[A-Z0-9]{16})\b/g;
+const GITHUB_TOKEN = /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/g;
+const GITLAB_TOKEN = /\b(gl(?:pat|dt|rt|ptt)-[A-Za-z0-9_\-]{20,})/g;
+const SLACK_TOKEN = /\b(xox[abposr]-[A-Za-z0-9\-]{10,})/g;
+const STRIPE_KEY = /\b((?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,99})\b/g;
+const JWT = /\b(eyJ[A-Za-z0-9_\-]{5,}\s*\.\s*eyJ[A-Za-z0-9_\-]{5,}\s*\.\s*[A-Za-z0-9_\-]{5,})/g;
+
+const secretRecognizers: Recognizer[] = [
+  {
+    id: "private_key",
+    label: "Private Key",
+    priority: 2,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 1,
+    // The header is usually the only line that survives OCR intact
+    pattern: /(-{3,}\s*BEGIN\s+(?:(?:RSA|EC|DSA|OPENSSH|ENCRYPTED|PGP)\s+)?PRIVATE\s+KEY(?:\s+BLOCK)?\s*-{3,})/gi,
+    clean: (match) => match.replace(/\s+/g, " ").trim(),
+    isStrongMatch: () => true,
+    classify: (s) => /^-{3,}\s*BEGIN\s+(?:[A-Z]+\s+)?PRIVATE\s+KEY/i.test(s),
+  },
+  {
+    id: "aws_access_key",
+    label: "AWS Access Key",
+    priority: 3,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.95,
+    pattern: AWS_ACCESS_KEY,
+    isStrongMatch: () => true,
+    classify: wholeMatch(AWS_ACCESS_KEY),
+  },
+  {
+    id: "aws_secret_key",
+    label: "AWS Secret Key",
+    priority: 3,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.8,
+    check: "randomness",
+    // 40-char secrets are indistinguishable from other base64 without their label
+    pattern: /(?:aws_?secret_?(?:access_?)?key|secret_?access_?key)["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    validate: looksRandom,
+    isStrongMatch: looksRandom,
+  },
+  {
+    id: "github_token",
+    label: "GitHub Token",
+    priority: 4,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.95,
+    pattern: GITHUB_TOKEN,
+    isStrongMatch: () => true,
+    classify: wholeMatch(GITHUB_TOKEN),
+  },
+  {
+    id: "gitlab_token",
+    label: "GitLab Token",
+    priority: 4,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.95,
+    pattern: GITLAB_TOKEN,
+    isStrongMatch: () => true,
+    classify: wholeMatch(GITLAB_TOKEN),
+  },
+  {
+    id: "slack_token",
+    label: "Slack Token",
+    priority: 4,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.95,
+    pattern: SLACK_TOKEN,
+    isStrongMatch: () => true,
+    classify: wholeMatch(SLACK_TOKEN),
+  },
+  {
+    id: "stripe_key",
+    label: "Stripe Key",
+    priority: 4,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.95,
+    pattern: STRIPE_KEY,
+    // Publishable keys are meant to be public, so only secret/restricted keys bypass the threshold
+    isStrongMatch: (text) => !text.startsWith("pk_"),
+    classify: wholeMatch(STRIPE_KEY),
+  },
+  {
+    id: "jwt",
+    label: "JWT",
+    priority: 5,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.9,
+    check: "JWT header",
+    pattern: JWT,
+    clean: collapse,
+    validate: isJwt,
+    isStrongMatch: isJwt,
+    classify: wholeMatch(JWT, isJwt),
+  },
+  {
+    id: "secret",
+    label: "Secret",
+    priority: 8,
+    defaultAction: "redact",
+    badgeClass: SECRET_BADGE,
+    specificity: 0.6,
+    check: "randomness",
+    // Values next to credential labels: "token=...", "api_key: ...", "Authorization: Bearer ..."
+    pattern: /\b(?:(?:access|auth|api|client|refresh|session)?[_\-\s]?(?:token|key|secret)|password|passwd|pwd|bearer)["']?\s*[:=\s]\s*["']?([A-Za-z0-9_\-./+=~]{16,})/gi,
+    validate: looksRandom,
+    isStrongMatch: (text) => looksRandom(text) && shannonEntropy(text) >= 4,
+  },
+];
+
+secretRecognizers.forEach(registerRecognizer);
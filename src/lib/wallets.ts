@@ -0,0 +1,233 @@
+// Cryptocurrency wallet address validation: Base58Check and Bech32/Bech32m for
+// Bitcoin and Litecoin, EIP-55 for Ethereum, and 32-byte Base58 keys for Solana.
+// The hashes are implemented here so everything stays local and synchronous.
+
+// --- SHA-256 (FIPS 180-4) ---
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export function sha256(bytes: Uint8Array): Uint8Array {
+  const bitLength = bytes.length * 8;
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 2 ** 32));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+}
+
+// --- Keccak-256 (the pre-standard padding Ethereum uses, not SHA3-256) ---
+
+const MASK64 = (1n << 64n) - 1n;
+const KECCAK_ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+const KECCAK_ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n, 0x000000000000808bn,
+  0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n, 0x000000000000008an, 0x0000000000000088n,
+  0x0000000080008009n, 0x000000008000000an, 0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n,
+  0x8000000000008003n, 0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+const rotl64 = (x: bigint, n: number) => (n === 0 ? x : ((x << BigInt(n)) | (x >> BigInt(64 - n))) & MASK64);
+
+function keccakF(state: bigint[]): void {
+  for (const rc of KECCAK_ROUND_CONSTANTS) {
+    const c = [0, 1, 2, 3, 4].map((x) => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    const b = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) b[y + ((2 * x + 3 * y) % 5) * 5] = rotl64(state[x + y * 5], KECCAK_ROTATIONS[x + y * 5]);
+    }
+    for (let i = 0; i < 25; i++) state[i] = b[i] ^ (~b[(i % 5 + 1) % 5 + i - (i % 5)] & MASK64 & b[(i % 5 + 2) % 5 + i - (i % 5)]);
+    state[0] ^= rc;
+  }
+}
+
+export function keccak256(bytes: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(bytes.length / rate) * rate + rate);
+  padded.set(bytes);
+  padded[bytes.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      let lane = 0n;
+      for (let j = 7; j >= 0; j--) lane = (lane << 8n) | BigInt(padded[offset + i * 8 + j]);
+      state[i] ^= lane;
+    }
+    keccakF(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) out[i] = Number((state[i >> 3] >> BigInt((i % 8) * 8)) & 0xffn);
+  return out;
+}
+
+// --- Base58Check ---
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function base58Decode(text: string): Uint8Array | null {
+  if (!text) return null;
+  let value = 0n;
+  for (const ch of text) {
+    const digit = BASE58_ALPHABET.indexOf(ch);
+    if (digit < 0) return null;
+    value = value * 58n + BigInt(digit);
+  }
+  const body: number[] = [];
+  while (value > 0n) {
+    body.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  // Each leading "1" encodes a leading zero byte
+  const zeros = text.match(/^1*/)![0].length;
+  return Uint8Array.from([...new Array(zeros).fill(0), ...body]);
+}
+
+// Version byte and payload of a Base58Check string, or null when the checksum fails
+export function base58CheckDecode(text: string): { version: number; payload: Uint8Array } | null {
+  const bytes = base58Decode(text);
+  if (!bytes || bytes.length < 5) return null;
+  const data = bytes.slice(0, -4);
+  const checksum = sha256(sha256(data)).slice(0, 4);
+  if (!checksum.every((b, i) => b === bytes[bytes.length - 4 + i])) return null;
+  return { version: data[0], payload: data.slice(1) };
+}
+
+// --- Bech32 / Bech32m (BIP-173, BIP-350) ---
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) if ((top >>> i) & 1) chk ^= generators[i];
+  }
+  return chk >>> 0;
+}
+
+export function bech32Decode(text: string): { hrp: string; data: number[]; variant: "bech32" | "bech32m" } | null {
+  // Mixed case is invalid, but either case on its own is allowed
+  if (text !== text.toLowerCase() && text !== text.toUpperCase()) return null;
+  const lower = text.toLowerCase();
+  const sep = lower.lastIndexOf("1");
+  if (sep < 1 || sep + 7 > lower.length || lower.length > 90) return null;
+  const hrp = lower.slice(0, sep);
+  const data: number[] = [];
+  for (const ch of lower.slice(sep + 1)) {
+    const v = BECH32_CHARSET.indexOf(ch);
+    if (v < 0) return null;
+    data.push(v);
+  }
+  const expanded = [...hrp].map((c) => c.charCodeAt(0) >> 5).concat([0], [...hrp].map((c) => c.charCodeAt(0) & 31));
+  const check = bech32Polymod([...expanded, ...data]);
+  const variant = check === BECH32_CONST ? "bech32" : check === BECH32M_CONST ? "bech32m" : null;
+  return variant ? { hrp, data: data.slice(0, -6), variant } : null;
+}
+
+// Native SegWit address for the given human-readable part ("bc", "ltc"):
+// witness v0 uses Bech32 with a 20 or 32 byte program, v1+ uses Bech32m
+function segwitOk(text: string, hrp: string): boolean {
+  const decoded = bech32Decode(text);
+  if (!decoded || decoded.hrp !== hrp || decoded.data.length < 1) return false;
+  const [version, ...words] = decoded.data;
+  if (version > 16) return false;
+  const programBytes = Math.floor((words.length * 5) / 8);
+  if (programBytes < 2 || programBytes > 40) return false;
+  if (version === 0) return decoded.variant === "bech32" && (programBytes === 20 || programBytes === 32);
+  return decoded.variant === "bech32m";
+}
+
+// --- Address checks ---
+
+// Bitcoin mainnet: P2PKH (1…), P2SH (3…) or native SegWit (bc1…)
+export function bitcoinAddressOk(text: string): boolean {
+  if (/^bc1/i.test(text)) return segwitOk(text, "bc");
+  const decoded = base58CheckDecode(text);
+  return !!decoded && decoded.payload.length === 20 && (decoded.version === 0x00 || decoded.version === 0x05);
+}
+
+// Litecoin mainnet: L… / M… legacy, the shared 3… P2SH form, or ltc1… SegWit
+export function litecoinAddressOk(text: string): boolean {
+  if (/^ltc1/i.test(text)) return segwitOk(text, "ltc");
+  const decoded = base58CheckDecode(text);
+  return !!decoded && decoded.payload.length === 20 && [0x30, 0x32, 0x05].includes(decoded.version);
+}
+
+// EIP-55: each hex letter is upper case when the matching nibble of the
+// Keccak-256 hash of the lower-cased address is 8 or more
+export function eip55ChecksumOk(text: string): boolean {
+  const hex = text.slice(2);
+  const hash = keccak256(new TextEncoder().encode(hex.toLowerCase()));
+  for (let i = 0; i < 40; i++) {
+    if (!/[a-f]/i.test(hex[i])) continue;
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0xf;
+    if ((nibble >= 8) !== (hex[i] === hex[i].toUpperCase())) return false;
+  }
+  return true;
+}
+
+// Single-case addresses carry no checksum, so they pass on structure alone
+export function ethereumAddressOk(text: string): boolean {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(text)) return false;
+  const hex = text.slice(2);
+  return hex === hex.toLowerCase() || hex === hex.toUpperCase() || eip55ChecksumOk(text);
+}
+
+// Solana: an Ed25519 public key, i.e. any Base58 string decoding to 32 bytes
+export function solanaAddressOk(text: string): boolean {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(text) && base58Decode(text)?.length === 32;
+}
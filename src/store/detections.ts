@@ -1,11 +1,16 @@
 import { create } from "zustand";
 import type { Detection } from "@/lib/overlay";
+import { getRecognizer } from "@/lib/recognizers";
 
 export type DetectionsState = {
   detections: Detection[];
   grouped: Record<string, Detection[]>;
   acceptedById: Record<string, boolean>;
-  setDetections: (items: Detection[]) => void;
+  // Detections hidden because they matched the allowlist
+  allowlistedCount: number;
+  // `fresh` marks the result of a new OCR run, whose positional ids say nothing
+  // about the choices made on the previous one
+  setDetections: (items: Detection[], allowlistedCount?: number, fresh?: boolean) => void;
   setAccepted: (id: string, accepted: boolean) => void;
   acceptAllOfType: (type: string) => void;
   rejectAllOfType: (type: string) => void;
@@ -16,14 +21,21 @@ export const useDetections = create<DetectionsState>((set) => ({
   detections: [],
   grouped: {},
   acceptedById: {},
-  setDetections: (items) =>
-    set(() => ({
+  allowlistedCount: 0,
+  setDetections: (items, allowlistedCount = 0, fresh = false) =>
+    set((state) => ({
       detections: items,
+      allowlistedCount,
       grouped: items.reduce((acc, d) => {
         acc[d.type] ||= [];
         acc[d.type].push(d);
         return acc;
       }, {} as Record<string, Detection[]>),
+      // Seed acceptance from each recognizer's default action without overriding user choices
+      acceptedById: items.reduce((acc, d) => {
+        if (!(d.id in acc) && getRecognizer(d.type)?.defaultAction === "redact") acc[d.id] = true;
+        return acc;
+      }, fresh ? {} : { ...state.acceptedById }),
     })),
   setAccepted: (id, accepted) =>
     set((state) => ({ acceptedById: { ...state.acceptedById, [id]: accepted } })),
@@ -43,7 +55,7 @@ export const useDetections = create<DetectionsState>((set) => ({
       });
       return { acceptedById: { ...state.acceptedById, ...updates } };
     }),
-  clear: () => set({ detections: [], grouped: {}, acceptedById: {} }),
+  clear: () => set({ detections: [], grouped: {}, acceptedById: {}, allowlistedCount: 0 }),
 }));
 
 
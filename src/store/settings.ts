@@ -0,0 +1,83 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { RecognizerOptions } from "@/lib/recognizers";
+import type { CustomRule } from "@/lib/customRules";
+import { DEFAULT_OCR_LANGUAGES } from "@/lib/ocr/languages";
+
+export type SettingsState = {
+  disabledCountries: string[];
+  setCountryEnabled: (country: string, enabled: boolean) => void;
+  defaultPhoneRegion: string;
+  setDefaultPhoneRegion: (region: string) => void;
+  customRules: CustomRule[];
+  addCustomRule: (rule: Omit<CustomRule, "id" | "enabled">) => void;
+  updateCustomRule: (id: string, changes: Partial<Omit<CustomRule, "id">>) => void;
+  removeCustomRule: (id: string) => void;
+  // Values and globs that are never redacted
+  allowlist: string[];
+  addAllowlistEntry: (entry: string) => void;
+  removeAllowlistEntry: (entry: string) => void;
+  // Extra field labels ("Member No") whose values are redacted
+  fieldLabels: string[];
+  addFieldLabel: (label: string) => void;
+  removeFieldLabel: (label: string) => void;
+  // Tesseract languages the screenshot is read with; changing them re-runs OCR
+  ocrLanguages: string[];
+  setOcrLanguageEnabled: (language: string, enabled: boolean) => void;
+};
+
+// Detection preferences, persisted in localStorage across sessions
+export const useSettings = create<SettingsState>()(
+  persist(
+    (set) => ({
+      disabledCountries: [],
+      setCountryEnabled: (country, enabled) =>
+        set((state) => ({
+          disabledCountries: enabled
+            ? state.disabledCountries.filter((c) => c !== country)
+            : [...new Set([...state.disabledCountries, country])],
+        })),
+      defaultPhoneRegion: "US",
+      setDefaultPhoneRegion: (region) => set({ defaultPhoneRegion: region }),
+      customRules: [],
+      addCustomRule: (rule) =>
+        set((state) => ({
+          customRules: [
+            ...state.customRules,
+            { ...rule, id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, enabled: true },
+          ],
+        })),
+      updateCustomRule: (id, changes) =>
+        set((state) => ({ customRules: state.customRules.map((r) => (r.id === id ? { ...r, ...changes } : r)) })),
+      removeCustomRule: (id) => set((state) => ({ customRules: state.customRules.filter((r) => r.id !== id) })),
+      allowlist: [],
+      addAllowlistEntry: (entry) =>
+        set((state) => ({ allowlist: entry.trim() ? [...new Set([...state.allowlist, entry.trim()])] : state.allowlist })),
+      removeAllowlistEntry: (entry) => set((state) => ({ allowlist: state.allowlist.filter((e) => e !== entry) })),
+      fieldLabels: [],
+      addFieldLabel: (label) =>
+        set((state) => ({ fieldLabels: label.trim() ? [...new Set([...state.fieldLabels, label.trim()])] : state.fieldLabels })),
+      removeFieldLabel: (label) => set((state) => ({ fieldLabels: state.fieldLabels.filter((l) => l !== label) })),
+      ocrLanguages: DEFAULT_OCR_LANGUAGES,
+      setOcrLanguageEnabled: (language, enabled) =>
+        set((state) => {
+          const next = enabled ? [...new Set([...state.ocrLanguages, language])] : state.ocrLanguages.filter((l) => l !== language);
+          // OCR needs at least one language
+          return { ocrLanguages: next.length > 0 ? next : state.ocrLanguages };
+        }),
+    }),
+    // Rehydrated from ManualRedactor on mount so server and client render the same defaults
+    { name: "sr:settings", skipHydration: true }
+  )
+);
+
+export function toRecognizerOptions(
+  state: Pick<SettingsState, "disabledCountries" | "defaultPhoneRegion" | "customRules" | "fieldLabels">
+): RecognizerOptions {
+  return {
+    disabledCountries: state.disabledCountries,
+    defaultRegion: state.defaultPhoneRegion,
+    customRules: state.customRules,
+    fieldLabels: state.fieldLabels,
+  };
+}
@@ -1,16 +1,21 @@
 /// <reference lib="webworker" />
 
 // Enhanced OCR worker with better text processing for PII detection
-// Message protocol:
-// - init: { type: 'init' }
-// - run: { type: 'run', payload: { imageBitmapDataURL: string } }
-// - response: { type: 'result', payload: { words: Array<WordBox> } }
+// Message protocol: see lib/ocr/protocol. Requests are answered by id:
+// - init: load Tesseract with { languages } (Tesseract codes, default ["eng"]), replies null
+// - run: OCR { imageBitmapDataURL, languages } (a whole image or one tile of it), replies { ocr: OcrResult }
+// - scan: find QR codes, barcodes and avatars in { imageBitmapDataURL, lineBoxes }, replies { codes, avatars }
+// - cancel: stop request { target } mid-recognition or at its next stage; it replies with a cancelled error
+// Progress events for a request are sent before its reply. The client may run
+// several of these workers side by side, one Tesseract instance each.
 
 import { createWorker } from "tesseract.js";
-
-type RunPayload = {
-  imageBitmapDataURL: string;
-};
+import { scanCodes, type ScannedCode } from "@/lib/codes";
+import { findAvatars, type AvatarRegion } from "@/lib/avatars";
+import { DEFAULT_OCR_LANGUAGES, needsAsciiWhitelist } from "@/lib/ocr/languages";
+import type { OcrMethods, OcrRequest, OcrResponse, OcrStage } from "@/lib/ocr/protocol";
+import type { OcrResult } from "@/lib/enhanced_detection";
+import { buildLine } from "@/lib/ocr/lines";
 
 export type WordBox = {
   text: string;
@@ -25,8 +30,7 @@ export type LineBox = {
 };
 
 type TesseractWorker = {
-  loadLanguage: (lang: string) => Promise<void>;
-  initialize: (lang: string) => Promise<void>;
+  reinitialize: (langs: string) => Promise<void>;
   recognize: (
     image: string | ImageBitmap | HTMLCanvasElement | HTMLImageElement,
     options?: Record<string, unknown>
@@ -37,7 +41,55 @@ type TesseractWorker = {
 };
 
 let ocrWorker: TesseractWorker | null = null;
+// Languages the Tesseract worker is loaded with
+let ocrLanguages: string[] = DEFAULT_OCR_LANGUAGES;
 const DEBUG_OCR = false; // Disable verbose logs in production
+// Requests being handled, so a cancel for one already answered is dropped
+const activeIds = new Set<string>();
+// Requests the client gave up on, checked between the stages of a run
+const cancelledIds = new Set<string>();
+const CANCELLED = new Error("OCR cancelled");
+// Request that Tesseract's progress is reported to. Tesseract runs one job at a
+// time, so it belongs to whichever request started the current stage.
+let progressTarget: string | null = null;
+// The run waiting on Tesseract, so a cancel can stop recognition midway
+let recognizing: { id: string; abort: () => void } | null = null;
+const ASCII_WHITELIST = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789@._-:+/\\()[]{}#%?=&~*'\"|!$^`,; \n\t";
+
+function reply(message: OcrResponse) {
+  postMessage(message);
+}
+
+function reportProgress(id: string, stage: OcrStage, progress: number) {
+  reply({ id, type: "progress", progress: { stage, progress } });
+}
+
+function checkpoint(id: string) {
+  if (cancelledIds.has(id)) throw CANCELLED;
+}
+
+function cancel(target: string) {
+  if (!activeIds.has(target)) return;
+  cancelledIds.add(target);
+  if (recognizing?.id !== target) return;
+  // Tesseract can't stop a job, so Tesseract itself is terminated; the next request loads it again
+  recognizing.abort();
+  recognizing = null;
+  const w = ocrWorker;
+  ocrWorker = null;
+  void w?.terminate?.();
+}
+
+function recognizeCancellable(id: string, w: TesseractWorker, ...args: Parameters<TesseractWorker["recognize"]>): ReturnType<TesseractWorker["recognize"]> {
+  return new Promise((resolve, reject) => {
+    recognizing = { id, abort: () => reject(CANCELLED) };
+    w.recognize(...args)
+      .then(resolve, reject)
+      .finally(() => {
+        if (recognizing?.id === id) recognizing = null;
+      });
+  });
+}
 
 async function decodeBitmap(dataUrl: string): Promise<ImageBitmap> {
   const res = await fetch(dataUrl);
@@ -46,7 +98,19 @@ async function decodeBitmap(dataUrl: string): Promise<ImageBitmap> {
   return bmp;
 }
 
-async function ensureWorker(): Promise<TesseractWorker> {
+async function ensureWorker(languages: string[] = DEFAULT_OCR_LANGUAGES): Promise<TesseractWorker> {
+  // Tesseract takes several languages joined with "+" ("eng+deu")
+  const langs = languages.join("+");
+  if (ocrWorker && langs !== ocrLanguages.join("+")) {
+    if (DEBUG_OCR) console.log(`OCR Worker: Switching languages to ${langs}...`);
+    await Promise.race([
+      ocrWorker.reinitialize(langs),
+      new Promise((_, reject) => 
+        setTimeout(() => reject(new Error("Language load timeout - please try manual redaction")), 30000)
+      )
+    ]);
+    ocrLanguages = languages;
+  }
   if (!ocrWorker) {
     console.log("OCR Worker: Starting initialization...");
     
@@ -54,24 +118,20 @@ async function ensureWorker(): Promise<TesseractWorker> {
     try {
       console.log("OCR Worker: Using default initialization strategy...");
       
-      const w = await createWorker();
-      ocrWorker = w as unknown as TesseractWorker;
-      
-      console.log("OCR Worker: Loading language...");
-      await Promise.race([
-        ocrWorker.loadLanguage("eng"),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("Language load timeout - please try manual redaction")), 30000)
-        )
-      ]);
-      
-      console.log("OCR Worker: Initializing...");
-      await Promise.race([
-        ocrWorker.initialize("eng"),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("Initialize timeout - please try manual redaction")), 30000)
+      // The worker downloads and initializes its languages on creation
+      if (DEBUG_OCR) console.log(`OCR Worker: Loading languages ${langs}...`);
+      const w = await Promise.race([
+        createWorker(langs, undefined, {
+          logger: (m: { status: string; progress: number }) => {
+            if (progressTarget) reportProgress(progressTarget, m.status === "recognizing text" ? "recognizing" : "loading", m.progress);
+          },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error("Language load timeout - please try manual redaction")), 60000)
         )
       ]);
+      ocrWorker = w as unknown as TesseractWorker;
+      ocrLanguages = languages;
       
       console.log("OCR Worker: Setting parameters...");
       try {
@@ -104,6 +164,40 @@ async function ensureWorker(): Promise<TesseractWorker> {
   return ocrWorker;
 }
 
+// QR codes, barcodes and avatars, found in the whole image rather than per
+// tile: a code can straddle two tiles and avatars repeat down the page
+function analyzeBitmap(
+  bmp: ImageBitmap,
+  lineBoxes: Array<{ x0: number; y0: number; x1: number; y1: number }>,
+  onProgress: (progress: number) => void
+): { codes: ScannedCode[]; avatars: AvatarRegion[] } {
+  let image: ImageData;
+  try {
+    const canvas = new OffscreenCanvas(bmp.width, bmp.height);
+    const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D;
+    ctx.drawImage(bmp, 0, 0);
+    image = ctx.getImageData(0, 0, bmp.width, bmp.height);
+  } catch (err) {
+    // Text detection is still worth returning without these
+    console.warn("OCR Worker: Image analysis failed:", err);
+    return { codes: [], avatars: [] };
+  }
+  let codes: ScannedCode[] = [];
+  let avatars: AvatarRegion[] = [];
+  try {
+    codes = scanCodes(image);
+  } catch (err) {
+    console.warn("OCR Worker: Code scan failed:", err);
+  }
+  onProgress(0.5);
+  try {
+    avatars = findAvatars(image, lineBoxes);
+  } catch (err) {
+    console.warn("OCR Worker: Avatar scan failed:", err);
+  }
+  return { codes, avatars };
+}
+
 // Enhanced text processing for better PII detection
 function processTextForPii(text: string): string {
   return text
@@ -179,151 +273,156 @@ function extractPiiCandidates(words: Array<OcrWordCandidate>): Array<PiiCandidat
   return candidates;
 }
 
-self.addEventListener("message", async (e: MessageEvent) => {
-  const { type, payload } = e.data || {};
-  try {
-    if (type === "init") {
-      console.log("OCR Worker: Received init message");
-      
-      // Add a timeout wrapper around the entire initialization
-      const initWithTimeout = async (timeoutMs: number = 90000) => {
-        return Promise.race([
-          ensureWorker(),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error("Worker initialization timeout - this may be due to network conditions. Please try manual redaction.")), timeoutMs)
-          )
-        ]);
-      };
-      
-      await initWithTimeout(45000); // Reduced timeout for deployment environments
-      console.log("OCR Worker: Sending ready message");
-      postMessage({ type: "ready" });
-      return;
-    }
-    if (type === "run") {
-      const { imageBitmapDataURL } = payload as RunPayload;
-      const w = await ensureWorker();
+async function initOcr(id: string, { languages }: OcrMethods["init"]["params"]): Promise<void> {
+  progressTarget = id;
+  reportProgress(id, "loading", 0);
+  await ensureWorker(languages.length ? languages : DEFAULT_OCR_LANGUAGES);
+  reportProgress(id, "loading", 1);
+}
 
-      // Decode image and create downscaled canvas (OCR space)
-      const bmp = await decodeBitmap(imageBitmapDataURL);
-      const origW = bmp.width;
-      const origH = bmp.height;
-      const maxW = 1024;
-      const scale = Math.min(1, maxW / origW);
-      const ocrW = Math.max(1, Math.round(origW * scale));
-      const ocrH = Math.max(1, Math.round(origH * scale));
-      const canvas = new OffscreenCanvas(ocrW, ocrH);
-      const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D;
-      ctx.imageSmoothingEnabled = true;
-      try { ctx.imageSmoothingQuality = "high"; } catch {}
-      ctx.drawImage(bmp, 0, 0, ocrW, ocrH);
+async function runOcr(id: string, { imageBitmapDataURL, languages }: OcrMethods["run"]["params"]): Promise<OcrMethods["run"]["result"]> {
+  progressTarget = id;
+  const w = await ensureWorker(languages.length ? languages : DEFAULT_OCR_LANGUAGES);
+  checkpoint(id);
+  const whitelist = needsAsciiWhitelist(ocrLanguages) ? { tessedit_char_whitelist: ASCII_WHITELIST } : {};
 
-      // Run OCR with optimized settings for PII detection
-      let result = await w.recognize(canvas as unknown as HTMLCanvasElement, {
-        tessedit_pageseg_mode: 1, // Automatic page segmentation with OSD
-        tessedit_char_whitelist: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789@._-:+/\\()[]{}#%?=&~*'\"|!$^`,; \n\t",
-        preserve_interword_spaces: 1,
-        oem: 1,
-        classify_bln_numeric_mode: 1, // Better for numbers
-        textord_heavy_nr: 1, // Better for noisy backgrounds
-        dictionaries_pattern: 1, // Use pattern dictionaries
-      });
-      
-      if ((!result.data?.words || result.data.words.length < 3) && DEBUG_OCR) {
-        // Fallback with different PSM
-        result = await w.recognize(canvas as unknown as HTMLCanvasElement, {
-          tessedit_pageseg_mode: 3, // Fully automatic page segmentation (default)
-          tessedit_char_whitelist: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789@._-:+/\\()[]{}#%?=&~*'\"|!$^`,; \n\t",
-          preserve_interword_spaces: 1,
-          oem: 1,
-          classify_bln_numeric_mode: 1,
-          textord_heavy_nr: 1,
-        });
-      }
+  // Decode image and create downscaled canvas (OCR space)
+  const bmp = await decodeBitmap(imageBitmapDataURL);
+  checkpoint(id);
+  const origW = bmp.width;
+  const origH = bmp.height;
+  // Tiles arrive at the density they should be read at; only guard against
+  // images wider than the preprocessing pipelines produce
+  const maxW = 2048;
+  const scale = Math.min(1, maxW / origW);
+  const ocrW = Math.max(1, Math.round(origW * scale));
+  const ocrH = Math.max(1, Math.round(origH * scale));
+  const canvas = new OffscreenCanvas(ocrW, ocrH);
+  const ctx = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D;
+  ctx.imageSmoothingEnabled = true;
+  try { ctx.imageSmoothingQuality = "high"; } catch {}
+  ctx.drawImage(bmp, 0, 0, ocrW, ocrH);
 
-      const scaleX = origW / ocrW;
-      const scaleY = origH / ocrH;
+  // Run OCR with optimized settings for PII detection
+  reportProgress(id, "recognizing", 0);
+  let result = await recognizeCancellable(id, w, canvas as unknown as HTMLCanvasElement, {
+    tessedit_pageseg_mode: 1, // Automatic page segmentation with OSD
+    ...whitelist,
+    preserve_interword_spaces: 1,
+    oem: 1,
+    classify_bln_numeric_mode: 1, // Better for numbers
+    textord_heavy_nr: 1, // Better for noisy backgrounds
+    dictionaries_pattern: 1, // Use pattern dictionaries
+  });
+  
+  if ((!result.data?.words || result.data.words.length < 3) && DEBUG_OCR) {
+    // Fallback with different PSM
+    result = await recognizeCancellable(id, w, canvas as unknown as HTMLCanvasElement, {
+      tessedit_pageseg_mode: 3, // Fully automatic page segmentation (default)
+      ...whitelist,
+      preserve_interword_spaces: 1,
+      oem: 1,
+      classify_bln_numeric_mode: 1,
+      textord_heavy_nr: 1,
+    });
+  }
 
-      const tWords = (result.data.words || []).map((w: { text?: string; confidence?: number; bbox: { x0: number; y0: number; x1: number; y1: number } }) => ({
-        text: w.text || "",
-        conf: w.confidence ?? 0,
-        bbox: { x: w.bbox.x0, y: w.bbox.y0, w: w.bbox.x1 - w.bbox.x0, h: w.bbox.y1 - w.bbox.y0 },
-      }));
+  checkpoint(id);
 
-      type TLine = { text: string; bbox: { x0: number; y0: number; x1: number; y1: number }; confidence: number };
-      const rawLines = (result.data as unknown as { lines?: TLine[] }).lines || [];
-      const lines = rawLines.map((ln) => {
-        const lb = ln.bbox;
-        // words overlapping this line bbox
-        const words = tWords
-          .filter((w) => {
-            const top = Math.max(w.bbox.y, lb.y0);
-            const bottom = Math.min(w.bbox.y + w.bbox.h, lb.y1);
-            const inter = Math.max(0, bottom - top);
-            const refH = Math.max(1, Math.min(w.bbox.h, lb.y1 - lb.y0));
-            return inter / refH > 0.5;
-          })
-          .sort((a, b) => a.bbox.x - b.bbox.x);
-        const joinedParts: string[] = [];
-        const spans: { start: number; end: number; wordIdx: number }[] = [];
-        let cursor = 0;
-        // estimate mean char width before join (non-space tokens only)
-        const nonSpaceCharsPre = words.reduce((acc, w) => acc + (w.text || "").trim().length, 0) || 1;
-        const meanCharWidth = Math.max(1, (lb.x1 - lb.x0) / nonSpaceCharsPre);
-        words.forEach((w, idx) => {
-          const token = (w.text || "").trim();
-          const start = cursor;
-          joinedParts.push(token);
-          cursor += token.length;
-          spans.push({ start, end: start + token.length, wordIdx: idx });
-          if (idx < words.length - 1) {
-            const next = words[idx + 1];
-            const gapToNext = next.bbox.x - (w.bbox.x + w.bbox.w);
-            const gapSpaces = gapToNext > meanCharWidth * 2.5 ? 2 : 1;
-            joinedParts.push(gapSpaces === 2 ? "  " : " ");
-            cursor += gapSpaces;
-          }
-        });
-        const joined = joinedParts.join("");
-        if (DEBUG_OCR) console.log("OCR line:", joined);
-        
-        return {
-          words,
-          joined,
-          spans,
-          meanCharWidth,
-        };
-      });
+  const scaleX = origW / ocrW;
+  const scaleY = origH / ocrH;
 
-      // Extract PII candidates from all detected words
-      const allWords = result.data.words || [];
-      const piiCandidates = extractPiiCandidates(allWords.map(w => ({
-        text: w.text || "",
-        bbox: w.bbox,
-        confidence: w.confidence ?? 0
-      })));
+  const tWords = (result.data.words || []).map((w: { text?: string; confidence?: number; bbox: { x0: number; y0: number; x1: number; y1: number } }) => ({
+    text: w.text || "",
+    conf: w.confidence ?? 0,
+    bbox: { x: w.bbox.x0, y: w.bbox.y0, w: w.bbox.x1 - w.bbox.x0, h: w.bbox.y1 - w.bbox.y0 },
+  }));
 
-      if (DEBUG_OCR) {
-        console.log("PII Candidates found:", piiCandidates.length);
-        piiCandidates.forEach(candidate => {
-          console.log(`Candidate: "${candidate.text}" (confidence: ${candidate.confidence})`);
-        });
-      }
+  type TLine = { text: string; bbox: { x0: number; y0: number; x1: number; y1: number }; confidence: number };
+  const rawLines = (result.data as unknown as { lines?: TLine[] }).lines || [];
+  const lines = rawLines.map((ln) => {
+    const lb = ln.bbox;
+    // words overlapping this line bbox
+    const words = tWords
+      .filter((w) => {
+        const top = Math.max(w.bbox.y, lb.y0);
+        const bottom = Math.min(w.bbox.y + w.bbox.h, lb.y1);
+        const inter = Math.max(0, bottom - top);
+        const refH = Math.max(1, Math.min(w.bbox.h, lb.y1 - lb.y0));
+        return inter / refH > 0.5;
+      })
+      .sort((a, b) => a.bbox.x - b.bbox.x);
+    const line = buildLine(words, lb.x1 - lb.x0);
+    if (DEBUG_OCR) console.log("OCR line:", line.joined);
+    return line;
+  });
 
-      const ocrResult = { 
-        width: ocrW, 
-        height: ocrH, 
-        scaleX, 
-        scaleY, 
-        lines,
-        piiCandidates // Add PII candidates to the result
-      };
-      
-      postMessage({ type: "result", payload: { ocr: ocrResult } });
-      return;
+  // Extract PII candidates from all detected words
+  const allWords = result.data.words || [];
+  const piiCandidates = extractPiiCandidates(allWords.map(w => ({
+    text: w.text || "",
+    bbox: w.bbox,
+    confidence: w.confidence ?? 0
+  })));
+
+  if (DEBUG_OCR) {
+    console.log("PII Candidates found:", piiCandidates.length);
+    piiCandidates.forEach(candidate => {
+      console.log(`Candidate: "${candidate.text}" (confidence: ${candidate.confidence})`);
+    });
+  }
+
+  const ocrResult: OcrResult = { 
+    width: ocrW, 
+    height: ocrH, 
+    scaleX, 
+    scaleY, 
+    lines,
+    piiCandidates, // Add PII candidates to the result
+  };
+  return { ocr: ocrResult };
+}
+
+async function scanImage(id: string, { imageBitmapDataURL, lineBoxes }: OcrMethods["scan"]["params"]): Promise<OcrMethods["scan"]["result"]> {
+  reportProgress(id, "scanning", 0);
+  const bmp = await decodeBitmap(imageBitmapDataURL);
+  checkpoint(id);
+  const found = analyzeBitmap(bmp, lineBoxes, (progress) => reportProgress(id, "scanning", progress));
+  reportProgress(id, "scanning", 1);
+  if (DEBUG_OCR) console.log("Codes found:", found.codes, "Avatars found:", found.avatars);
+  return found;
+}
+
+self.addEventListener("message", async (e: MessageEvent<OcrRequest>) => {
+  const message = e.data;
+  if (message.method === "cancel") {
+    cancel(message.params.target);
+    return;
+  }
+  const { id } = message;
+  activeIds.add(id);
+  try {
+    if (message.method === "init") {
+      console.log("OCR Worker: Received init message");
+      await initOcr(id, message.params);
+      checkpoint(id);
+      reply({ id, type: "result", result: null });
+    } else if (message.method === "run") {
+      const result = await runOcr(id, message.params);
+      checkpoint(id);
+      reply({ id, type: "result", result });
+    } else {
+      const result = await scanImage(id, message.params);
+      checkpoint(id);
+      reply({ id, type: "result", result });
     }
   } catch (err) {
-    postMessage({ type: "error", payload: { message: (err as Error).message } });
+    const cancelled = cancelledIds.has(id);
+    reply({ id, type: "error", error: cancelled ? CANCELLED.message : (err as Error).message, cancelled });
+  } finally {
+    activeIds.delete(id);
+    cancelledIds.delete(id);
+    if (progressTarget === id) progressTarget = null;
   }
 });
 
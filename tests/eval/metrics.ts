@@ -0,0 +1,106 @@
+import type { OcrResult } from "@/lib/enhanced_detection";
+import type { RecognizerOptions } from "@/lib/recognizers/registry";
+
+// Scoring for the detection harness: predictions and ground truth of the same
+// type are paired greedily by IoU, and each pair over the threshold counts once.
+
+export type BBox = { x0: number; y0: number; x1: number; y1: number };
+
+export type TruthBox = { type: string; text: string; bbox: BBox };
+
+export type Fixture = {
+  name: string;
+  description: string;
+  ocr: OcrResult;
+  truth: TruthBox[];
+  // Settings the fixture is read with (custom rules, field labels, countries),
+  // as the app passes them from the settings store
+  options?: RecognizerOptions;
+  // Rendered screenshot next to the fixture, for generated fixtures
+  image?: string;
+};
+
+export type Prediction = { type: string; text: string; bbox: BBox };
+
+export type Counts = { tp: number; fp: number; fn: number; iouSum: number };
+
+export type Score = { tp: number; fp: number; fn: number; precision: number; recall: number; f1: number; meanIoU: number };
+
+export type FixtureResult = {
+  counts: Record<string, Counts>;
+  falsePositives: Prediction[];
+  falseNegatives: TruthBox[];
+};
+
+export const IOU_THRESHOLD = 0.5;
+
+export function iou(a: BBox, b: BBox): number {
+  const ix = Math.max(0, Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0));
+  const iy = Math.max(0, Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0));
+  const inter = ix * iy;
+  const area = (r: BBox) => Math.max(0, r.x1 - r.x0) * Math.max(0, r.y1 - r.y0);
+  const union = area(a) + area(b) - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+const emptyCounts = (): Counts => ({ tp: 0, fp: 0, fn: 0, iouSum: 0 });
+
+export function matchFixture(predictions: Prediction[], truth: TruthBox[], threshold = IOU_THRESHOLD): FixtureResult {
+  const counts: Record<string, Counts> = {};
+  const at = (type: string) => (counts[type] ||= emptyCounts());
+
+  const pairs: Array<{ p: number; t: number; iou: number }> = [];
+  predictions.forEach((pred, p) => {
+    truth.forEach((box, t) => {
+      if (pred.type !== box.type) return;
+      const overlap = iou(pred.bbox, box.bbox);
+      if (overlap >= threshold) pairs.push({ p, t, iou: overlap });
+    });
+  });
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const usedPred = new Set<number>();
+  const usedTruth = new Set<number>();
+  for (const { p, t, iou: overlap } of pairs) {
+    if (usedPred.has(p) || usedTruth.has(t)) continue;
+    usedPred.add(p);
+    usedTruth.add(t);
+    at(truth[t].type).tp++;
+    at(truth[t].type).iouSum += overlap;
+  }
+
+  const falsePositives = predictions.filter((_, p) => !usedPred.has(p));
+  const falseNegatives = truth.filter((_, t) => !usedTruth.has(t));
+  falsePositives.forEach((pred) => at(pred.type).fp++);
+  falseNegatives.forEach((box) => at(box.type).fn++);
+  return { counts, falsePositives, falseNegatives };
+}
+
+export function addCounts(into: Record<string, Counts>, from: Record<string, Counts>): void {
+  for (const [type, c] of Object.entries(from)) {
+    const target = (into[type] ||= emptyCounts());
+    target.tp += c.tp;
+    target.fp += c.fp;
+    target.fn += c.fn;
+    target.iouSum += c.iouSum;
+  }
+}
+
+export function toScore(c: Counts): Score {
+  const precision = c.tp + c.fp > 0 ? c.tp / (c.tp + c.fp) : 1;
+  const recall = c.tp + c.fn > 0 ? c.tp / (c.tp + c.fn) : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { tp: c.tp, fp: c.fp, fn: c.fn, precision, recall, f1, meanIoU: c.tp > 0 ? c.iouSum / c.tp : 0 };
+}
+
+// Micro-averaged over all types
+export function totalCounts(counts: Record<string, Counts>): Counts {
+  const total = emptyCounts();
+  for (const c of Object.values(counts)) {
+    total.tp += c.tp;
+    total.fp += c.fp;
+    total.fn += c.fn;
+    total.iouSum += c.iouSum;
+  }
+  return total;
+}
@@ -0,0 +1,116 @@
+import { readdirSync, readFileSync, writeFileSync, existsSync } from "fs";
+import path from "path";
+import { processOcrForDetections } from "@/lib/enhanced_detection";
+import { addCounts, matchFixture, toScore, totalCounts, type Counts, type Fixture, type Score } from "./metrics";
+
+// Offline detection report. Feeds the stored OCR fixtures through
+// processOcrForDetections and compares the result with ground truth and the
+// saved baseline:
+//
+//   npm run eval                 report and diff against tests/eval/baseline.json
+//   npm run eval -- --update     save the current scores as the new baseline
+//   npm run eval -- --verbose    also list every false positive and miss
+//   npm run eval -- --min=50     confidence threshold (default 65, the app's default)
+//   npm run eval -- --fixtures=tests/fixtures/synth
+//                                another fixture directory, with its own baseline.json
+//
+// Exits with 1 when a type's F1 drops below the baseline.
+
+type Baseline = {
+  minConfidence: number;
+  overall: Score;
+  types: Record<string, Score>;
+  fixtures: Record<string, Score>;
+};
+
+// Rounding noise, not a regression
+const TOLERANCE = 0.001;
+
+const args = process.argv.slice(2);
+const update = args.includes("--update");
+const verbose = args.includes("--verbose");
+const minConfidence = Number(args.find((a) => a.startsWith("--min="))?.slice(6) ?? 65);
+const fixtureArg = args.find((a) => a.startsWith("--fixtures="))?.slice(11);
+
+const FIXTURE_DIR = fixtureArg ? path.resolve(fixtureArg) : path.resolve(__dirname, "../fixtures/ocr");
+const BASELINE_PATH = fixtureArg ? path.join(FIXTURE_DIR, "baseline.json") : path.resolve(__dirname, "baseline.json");
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+const roundScore = (s: Score): Score => ({ ...s, precision: round(s.precision), recall: round(s.recall), f1: round(s.f1), meanIoU: round(s.meanIoU) });
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(6);
+
+function loadFixtures(): Fixture[] {
+  return readdirSync(FIXTURE_DIR)
+    .filter((f) => f.endsWith(".json") && f !== "baseline.json")
+    .sort()
+    .map((f) => JSON.parse(readFileSync(path.join(FIXTURE_DIR, f), "utf8")) as Fixture);
+}
+
+function printTable(title: string, rows: Record<string, Score>, baseline?: Record<string, Score>) {
+  console.log(`\n${title}`);
+  console.log(`  ${"".padEnd(16)}   tp   fp   fn  precision  recall      f1    IoU   Δf1`);
+  for (const [name, s] of Object.entries(rows)) {
+    const before = baseline?.[name];
+    const delta = before ? s.f1 - before.f1 : undefined;
+    const deltaText = delta === undefined ? "   new" : Math.abs(delta) <= TOLERANCE ? "     =" : `${delta > 0 ? "+" : ""}${(delta * 100).toFixed(1)}`.padStart(6);
+    console.log(
+      `  ${name.padEnd(16)} ${String(s.tp).padStart(4)} ${String(s.fp).padStart(4)} ${String(s.fn).padStart(4)}     ${pct(s.precision)}  ${pct(s.recall)}  ${pct(s.f1)}  ${s.meanIoU.toFixed(2)} ${deltaText}`
+    );
+  }
+}
+
+function main(): number {
+  const fixtures = loadFixtures();
+  const byType: Record<string, Counts> = {};
+  const byFixture: Record<string, Score> = {};
+
+  for (const fixture of fixtures) {
+    const predictions = processOcrForDetections(fixture.ocr, minConfidence, fixture.options).map((d) => ({ type: d.type, text: d.text, bbox: d.bbox }));
+    const result = matchFixture(predictions, fixture.truth);
+    addCounts(byType, result.counts);
+    byFixture[fixture.name] = roundScore(toScore(totalCounts(result.counts)));
+
+    if (verbose) {
+      console.log(`\n${fixture.name}: ${fixture.description}`);
+      result.falsePositives.forEach((p) => console.log(`  FP ${p.type.padEnd(16)} ${JSON.stringify(p.text)}`));
+      result.falseNegatives.forEach((t) => console.log(`  FN ${t.type.padEnd(16)} ${JSON.stringify(t.text)}`));
+    }
+  }
+
+  const types = Object.fromEntries(
+    Object.entries(byType)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([type, c]) => [type, roundScore(toScore(c))])
+  );
+  const current: Baseline = { minConfidence, overall: roundScore(toScore(totalCounts(byType))), types, fixtures: byFixture };
+
+  const baseline: Baseline | undefined = existsSync(BASELINE_PATH) ? JSON.parse(readFileSync(BASELINE_PATH, "utf8")) : undefined;
+  if (baseline && baseline.minConfidence !== minConfidence) {
+    console.log(`Baseline was recorded at min confidence ${baseline.minConfidence}%, not ${minConfidence}%; deltas are not comparable.`);
+  }
+
+  console.log(`${fixtures.length} fixtures, min confidence ${minConfidence}%, IoU ≥ 0.5`);
+  printTable("Per type", types, baseline?.types);
+  printTable("Per fixture", byFixture, baseline?.fixtures);
+  printTable("Overall", { overall: current.overall }, baseline ? { overall: baseline.overall } : undefined);
+
+  if (update) {
+    writeFileSync(BASELINE_PATH, `${JSON.stringify(current, null, 2)}\n`);
+    console.log(`\nBaseline written to ${path.relative(process.cwd(), BASELINE_PATH)}`);
+    return 0;
+  }
+  if (!baseline) {
+    console.log("\nNo baseline yet; run with --update to record one.");
+    return 0;
+  }
+
+  const regressions = Object.entries(baseline.types).filter(([type, before]) => (types[type]?.f1 ?? 0) < before.f1 - TOLERANCE);
+  if (regressions.length > 0) {
+    console.log(`\nF1 regressed for: ${regressions.map(([type]) => type).join(", ")}`);
+    return 1;
+  }
+  console.log("\nNo regressions against the baseline.");
+  return 0;
+}
+
+process.exit(main());
@@ -0,0 +1,64 @@
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import type { Fixture } from "../eval/metrics";
+import { LAYOUTS } from "./layouts";
+import { createRng, int, pick } from "./random";
+import { createPage, THEMES } from "./render";
+
+// Renders synthetic screenshots with known fake PII, for detector evaluation
+// without real data in the repo:
+//
+//   npm run synth                                  8 images into tests/fixtures/synth
+//   npm run synth -- --count=40 --seed=7           more images, a different draw
+//   npm run synth -- --layouts=chat,terminal       only some layouts
+//   npm run synth -- --out=/tmp/synth
+//
+// Each image gets a JSON next to it in the eval harness's fixture format: the
+// ground-truth boxes plus the OCR a perfect engine would return, so
+// `npm run eval -- --fixtures=tests/fixtures/synth` scores the detector on it.
+// Theme, font, font size and DPI are drawn per image from the seed.
+
+type SynthFixture = Fixture & {
+  render: { layout: string; seed: number; theme: string; fontFamily: string; fontSize: number; dpi: number };
+};
+
+const args = process.argv.slice(2);
+const arg = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+const count = Number(arg("count") ?? 8);
+const seed = Number(arg("seed") ?? 1);
+const outDir = path.resolve(arg("out") ?? "tests/fixtures/synth");
+const wanted = arg("layouts")?.split(",");
+const layouts = wanted ? LAYOUTS.filter((l) => wanted.includes(l.name)) : LAYOUTS;
+
+if (layouts.length === 0) {
+  console.error(`No layouts match ${wanted}; available: ${LAYOUTS.map((l) => l.name).join(", ")}`);
+  process.exit(1);
+}
+
+mkdirSync(outDir, { recursive: true });
+
+for (let i = 0; i < count; i++) {
+  const imageSeed = seed + i;
+  const rng = createRng(imageSeed);
+  const layout = layouts[i % layouts.length];
+  const theme = THEMES[pick(rng, ["light", "dark"] as const)];
+  const fontFamily = layout.fontFamily ?? pick(rng, ["sans-serif", "serif"]);
+  const fontSize = int(rng, 13, 18);
+  const dpi = pick(rng, [1, 1.5, 2]);
+
+  const page = createPage({ width: layout.width, height: layout.height, dpi, theme, fontSize, fontFamily, rng });
+  const description = layout.draw(page, rng);
+  const name = `${layout.name}-${String(imageSeed).padStart(4, "0")}`;
+
+  const fixture: SynthFixture = {
+    ...page.fixture(name, `${description} (${theme.name}, ${fontFamily} ${fontSize}px, ${dpi}x)`),
+    image: `${name}.png`,
+    render: { layout: layout.name, seed: imageSeed, theme: theme.name, fontFamily, fontSize, dpi },
+  };
+  writeFileSync(path.join(outDir, `${name}.png`), page.png());
+  writeFileSync(path.join(outDir, `${name}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+  console.log(`${name}: ${fixture.truth.length} PII boxes, ${fixture.ocr.width}×${fixture.ocr.height}`);
+}
+
+console.log(`Wrote ${count} images to ${path.relative(process.cwd(), outDir) || "."}`);
@@ -0,0 +1,180 @@
+import type { Page, Segment } from "./render";
+import * as fake from "./random";
+import { int, pick, type Rng } from "./random";
+
+// Screen layouts for the generator. Each draws onto a page in CSS pixels and
+// marks every piece of PII with the recognizer type the detector should report.
+
+export type Layout = {
+  name: string;
+  width: number;
+  height: number;
+  // Terminals are monospace whatever font the run picked
+  fontFamily?: string;
+  // Draws the screen and returns a one-line description for the fixture
+  draw: (page: Page, rng: Rng) => string;
+};
+
+const chat: Layout = {
+  name: "chat",
+  width: 420,
+  height: 760,
+  draw(page, rng) {
+    const { theme } = page;
+    const customer = fake.person(rng);
+    const agent = fake.person(rng);
+    page.rect(0, 0, 420, 56, theme.surface);
+    page.text(16, 18, [{ type: "name", text: customer.name }], { weight: "bold" });
+
+    // Bubbles are narrow on purpose so long values wrap
+    const bubbleWidth = 250;
+    const messages: Array<{ mine: boolean; segments: Segment[] }> = [
+      { mine: false, segments: ["Hi, I can't get into my account"] },
+      { mine: true, segments: ["Sorry about that! What email did you sign up with?"] },
+      { mine: false, segments: ["it's", { type: "email", text: customer.email }] },
+      { mine: true, segments: ["Thanks. And the phone number on file?"] },
+      { mine: false, segments: ["sure,", { type: "phone", text: fake.phone(rng) }] },
+      { mine: true, segments: ["I sent a reset link to", { type: "email", text: `${agent.given.toLowerCase()}.support-team@${pick(rng, ["example.com", "example.org"])}` }] },
+      { mine: false, segments: ["the page says", { type: "url", text: fake.url(rng, `reset?token=${int(rng, 100000, 999999)}`) }] },
+      { mine: true, segments: ["Yes, that's right. Your last sign in was from", { type: "ipv4", text: fake.ipv4(rng) }] },
+      { mine: false, segments: ["great, thank you!"] },
+    ];
+
+    let y = 76;
+    const lh = page.lineHeight();
+    for (const { mine, segments } of messages) {
+      const x = mine ? 420 - bubbleWidth - 28 : 16;
+      const rows = page.rows(bubbleWidth, segments);
+      page.rect(x - 10, y - 6, bubbleWidth + 20, rows * lh + 12, mine ? theme.accent : theme.surface, 12);
+      page.paragraph(x, y, bubbleWidth, segments, { color: mine ? theme.accentText : theme.text });
+      y += rows * lh + 22;
+    }
+    return `Support chat with ${customer.name}, narrow bubbles with wrapped values`;
+  },
+};
+
+const email: Layout = {
+  name: "email",
+  width: 900,
+  height: 620,
+  draw(page, rng) {
+    const { theme } = page;
+    const sender = fake.person(rng);
+    const recipient = fake.person(rng);
+    const [street, city] = fake.address(rng);
+    const lh = page.lineHeight();
+
+    // Folder list
+    page.rect(0, 0, 180, 620, theme.surface);
+    ["Inbox", "Starred", "Sent", "Drafts", "Archive"].forEach((folder, i) => page.text(20, 24 + i * lh * 1.4, [folder], { color: theme.muted }));
+    page.rect(180, 0, 1, 620, theme.border);
+
+    let y = 24;
+    page.text(210, y, [pick(rng, ["Your order has shipped", "Invoice for March", "Re: account access"])], { weight: "bold", size: 20 });
+    y += lh * 2;
+    page.text(210, y, ["From:", { type: "name", text: sender.name }, { type: "email", text: sender.email }]);
+    y += lh;
+    page.text(210, y, ["To:", { type: "email", text: recipient.email }], { color: theme.muted });
+    y += lh;
+    page.text(210, y, [`${pick(rng, ["Mon", "Tue", "Wed", "Thu"])} 14 Mar, 09:${int(rng, 10, 59)}`], { color: theme.muted });
+    y += lh * 2;
+    page.paragraph(210, y, 640, [`Hi ${recipient.given},`]);
+    y += lh * 1.6;
+    y += lh * page.paragraph(210, y, 640, [
+      "Thanks for getting in touch. I've attached the documents we discussed. If anything is unclear you can reach me on",
+      { type: "phone", text: fake.phone(rng) },
+      "during office hours.",
+    ]);
+    y += lh;
+    page.text(210, y, ["Best regards,"]);
+    y += lh;
+    page.text(210, y, [{ type: "name", text: sender.name }]);
+    y += lh;
+    page.text(210, y, [{ type: "address", text: street, key: "signature-address" }], { color: theme.muted });
+    y += lh;
+    page.text(210, y, [{ type: "address", text: city, key: "signature-address" }], { color: theme.muted });
+    return `Email client reading a message from ${sender.name}`;
+  },
+};
+
+const invoice: Layout = {
+  name: "invoice",
+  width: 800,
+  height: 760,
+  draw(page, rng) {
+    const { theme } = page;
+    const client = fake.person(rng);
+    const [street, city] = fake.address(rng);
+    const lh = page.lineHeight();
+
+    page.text(40, 40, ["INVOICE"], { weight: "bold", size: 28 });
+    page.text(560, 48, [`No. INV-${int(rng, 1000, 9999)}`], { color: theme.muted });
+    let y = 120;
+    page.text(40, y, ["Bill to"], { color: theme.muted });
+    y += lh;
+    page.text(40, y, [{ type: "name", text: client.name }], { weight: "bold" });
+    y += lh;
+    page.text(40, y, [{ type: "address", text: street, key: "bill-to" }]);
+    y += lh;
+    page.text(40, y, [{ type: "address", text: city, key: "bill-to" }]);
+    y += lh * 1.6;
+    page.text(40, y, ["Email:", { type: "email", text: client.email }]);
+    y += lh;
+    page.text(40, y, ["Tel:", { type: "phone", text: fake.phone(rng) }]);
+    y += lh;
+    page.text(40, y, ["Customer ID:", { type: "field_value", text: fake.customerId(rng) }]);
+
+    y += lh * 2;
+    page.rect(40, y - 6, 720, lh + 8, theme.surface);
+    page.text(50, y, ["Description"], { weight: "bold" });
+    page.text(620, y, ["Amount"], { weight: "bold" });
+    y += lh * 1.5;
+    for (const item of ["Consulting services", "Filing fees", "Travel"]) {
+      page.text(50, y, [item]);
+      page.text(620, y, [`$${int(rng, 40, 2400)}.00`]);
+      y += lh;
+    }
+
+    y += lh * 1.5;
+    page.text(40, y, ["Pay by bank transfer"], { color: theme.muted });
+    y += lh;
+    page.text(40, y, ["IBAN:", { type: "iban", text: fake.iban(rng) }]);
+    y += lh;
+    page.text(40, y, ["or card", { type: "credit_card", text: fake.card(rng) }]);
+    return `Invoice for ${client.name} with bank and card details`;
+  },
+};
+
+const terminal: Layout = {
+  name: "terminal",
+  width: 820,
+  height: 520,
+  fontFamily: "monospace",
+  draw(page, rng) {
+    const { theme } = page;
+    const user = fake.person(rng).given.toLowerCase();
+    const lh = page.lineHeight();
+    page.rect(0, 0, 820, 28, theme.surface);
+    page.text(12, 6, [`${user}@build-01: ~`], { color: theme.muted, size: 13 });
+
+    const host = fake.ipv4(rng);
+    const rows: Segment[][] = [
+      [`${user}@build-01:~$`, "ssh", "-l", "deploy", { type: "ipv4", text: host }],
+      ["Last login: Tue Mar 12 08:01:44 from", { type: "ipv4", text: fake.ipv4(rng) }],
+      [`deploy@web:~$`, "ip", "addr", "show", "eth0"],
+      ["inet", { type: "cidr", text: `${fake.ipv4(rng)}/24` }, "brd", "scope", "global", "eth0"],
+      ["inet6", { type: "ipv6", text: fake.ipv6(rng) }, "scope", "global"],
+      ["link/ether", { type: "mac_address", text: fake.mac(rng) }],
+      [`deploy@web:~$`, "cat", "~/.aws/credentials"],
+      ["[default]"],
+      ["aws_access_key_id", "=", { type: "aws_access_key", text: fake.awsAccessKey(rng) }],
+      ["admin_email", "=", { type: "email", text: `ops@${pick(rng, ["example.com", "example.net"])}` }],
+      [`deploy@web:~$`, "uptime"],
+      [` 09:${int(rng, 10, 59)}:02 up ${int(rng, 2, 90)} days, load average: 0.42, 0.38, 0.40`],
+    ];
+    rows.forEach((row, i) => page.text(12, 44 + i * lh, row));
+    return `Terminal session on ${host}`;
+  },
+};
+
+export const LAYOUTS: Layout[] = [chat, email, invoice, terminal];
@@ -0,0 +1,74 @@
+// Seeded randomness and fake PII for the synthetic screenshots. Everything here
+// is fictional or reserved for documentation: example.com domains, 555-01xx
+// phone numbers, published test card numbers and RFC 5737 / 3849 addresses.
+
+export type Rng = () => number;
+
+// mulberry32: small, fast and reproducible from a 32-bit seed
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const pick = <T,>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)];
+export const int = (rng: Rng, min: number, max: number) => min + Math.floor(rng() * (max - min + 1));
+const digits = (rng: Rng, n: number) => Array.from({ length: n }, () => int(rng, 0, 9)).join("");
+
+const GIVEN = ["Maria", "James", "Priya", "Thomas", "Aisha", "Daniel", "Sofia", "Kenji", "Laura", "Omar", "Emma", "Lucas"] as const;
+const SURNAMES = ["Gonzalez", "Becker", "Raman", "Okafor", "Lindqvist", "Tanaka", "Novak", "Haddad", "Murphy", "Rossi"] as const;
+const DOMAINS = ["example.com", "example.org", "example.net", "mail.example.com"] as const;
+const STREETS = ["Maple Avenue", "Oak Street", "Harbor Road", "Elm Drive", "Cedar Lane", "Park Place"] as const;
+const CITIES = [["Springfield", "IL", "62704"], ["Riverside", "CA", "92501"], ["Portland", "OR", "97205"], ["Madison", "WI", "53703"]] as const;
+
+// Published test numbers, all Luhn-valid
+const TEST_CARDS = ["4111 1111 1111 1111", "4242 4242 4242 4242", "5555 5555 5555 4444", "3782 822463 10005"] as const;
+
+export type Person = { given: string; surname: string; name: string; email: string };
+
+export function person(rng: Rng): Person {
+  const given = pick(rng, GIVEN);
+  const surname = pick(rng, SURNAMES);
+  const email = `${pick(rng, [`${given}.${surname}`, `${given[0]}.${surname}`, `${given}${int(rng, 10, 99)}`])}@${pick(rng, DOMAINS)}`.toLowerCase();
+  return { given, surname, name: `${given} ${surname}`, email };
+}
+
+export const phone = (rng: Rng) => pick(rng, [`(${int(rng, 201, 989)}) 555-01${digits(rng, 2)}`, `+1 ${int(rng, 201, 989)} 555 01${digits(rng, 2)}`]);
+export const card = (rng: Rng) => pick(rng, TEST_CARDS);
+export const url = (rng: Rng, path: string) => `https://${pick(rng, ["portal", "help", "docs", "billing"])}.example.com/${path}`;
+
+export function address(rng: Rng): [string, string] {
+  const [city, state, zip] = pick(rng, CITIES);
+  return [`${int(rng, 12, 9800)} ${pick(rng, STREETS)}`, `${city}, ${state} ${zip}`];
+}
+
+// German IBAN with a random BBAN and a correct mod-97 check, grouped in fours
+export function iban(rng: Rng): string {
+  const bban = digits(rng, 18);
+  const numeric = `${bban}131400`; // "DE00" moved to the end, letters as numbers
+  const check = 98 - Number(BigInt(numeric) % 97n);
+  const raw = `DE${String(check).padStart(2, "0")}${bban}`;
+  return raw.match(/.{1,4}/g)!.join(" ");
+}
+
+export const ipv4 = (rng: Rng) => `${pick(rng, ["192.0.2", "198.51.100", "203.0.113", "10.0.4"])}.${int(rng, 2, 250)}`;
+export const ipv6 = (rng: Rng) => `2001:db8:${int(rng, 0, 0xffff).toString(16)}::${int(rng, 1, 0xffff).toString(16)}`;
+
+// Locally administered unicast MAC
+export function mac(rng: Rng): string {
+  const bytes = Array.from({ length: 6 }, () => int(rng, 0, 255));
+  bytes[0] = (bytes[0] | 0x02) & 0xfe;
+  return bytes.map((b) => b.toString(16).padStart(2, "0")).join(":");
+}
+
+export function awsAccessKey(rng: Rng): string {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  return `AKIA${Array.from({ length: 16 }, () => pick(rng, alphabet.split(""))).join("")}`;
+}
+
+export const customerId = (rng: Rng) => `${pick(rng, ["CB", "CX", "AC"])}-${digits(rng, 6)}`;
@@ -0,0 +1,213 @@
+import { createCanvas } from "@napi-rs/canvas";
+import type { OcrResult } from "@/lib/enhanced_detection";
+import type { Fixture, TruthBox } from "../eval/metrics";
+import { int, type Rng } from "./random";
+
+// A drawing surface that records what it draws: every word's box becomes part of
+// a perfect OcrResult, and every PII segment becomes a ground-truth box. Layout
+// code works in CSS pixels; recorded boxes are in image pixels (CSS × DPI).
+
+export type Theme = {
+  name: "light" | "dark";
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  muted: string;
+  accent: string;
+  accentText: string;
+};
+
+export const THEMES: Record<Theme["name"], Theme> = {
+  light: { name: "light", background: "#ffffff", surface: "#f1f3f5", border: "#d0d4d9", text: "#1f2328", muted: "#6b7280", accent: "#2563eb", accentText: "#ffffff" },
+  dark: { name: "dark", background: "#111418", surface: "#1e232a", border: "#2f3640", text: "#e6e8eb", muted: "#8b93a1", accent: "#3b82f6", accentText: "#ffffff" },
+};
+
+// Plain text, or PII with its recognizer type. Segments sharing a key (an address
+// over two lines) are one ground-truth box.
+export type Segment = string | { type: string; text: string; key?: string };
+
+export type TextStyle = { color?: string; size?: number; weight?: "normal" | "bold"; family?: string };
+
+export type PageOptions = {
+  width: number;
+  height: number;
+  dpi: number;
+  theme: Theme;
+  fontSize: number;
+  fontFamily: string;
+  rng: Rng;
+};
+
+type OcrLine = OcrResult["lines"][number];
+type Word = { text: string; key?: string; type?: string };
+type Box = { x0: number; y0: number; x1: number; y1: number };
+
+export function createPage(opts: PageOptions) {
+  const { width, height, dpi, theme, rng } = opts;
+  const canvas = createCanvas(Math.round(width * dpi), Math.round(height * dpi));
+  const ctx = canvas.getContext("2d");
+  ctx.scale(dpi, dpi);
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, width, height);
+
+  const lines: OcrLine[] = [];
+  const truth = new Map<string, { type: string; text: string[]; boxes: Box[] }>();
+  let autoKey = 0;
+
+  const font = (style: TextStyle = {}) =>
+    `${style.weight ?? "normal"} ${style.size ?? opts.fontSize}px ${style.family ?? opts.fontFamily}`;
+
+  const toWords = (segments: Segment[]): Word[] =>
+    segments.flatMap((seg) => {
+      if (typeof seg === "string") return seg.split(/\s+/).filter(Boolean).map((text) => ({ text }));
+      const key = seg.key ?? `auto-${autoKey++}`;
+      return seg.text.split(/\s+/).filter(Boolean).map((text) => ({ text, key, type: seg.type }));
+    });
+
+  // Draws words on one baseline and records them as an OCR line
+  function drawLine(x: number, top: number, words: Word[], style: TextStyle = {}): void {
+    if (words.length === 0) return;
+    ctx.font = font(style);
+    ctx.fillStyle = style.color ?? theme.text;
+    const space = ctx.measureText(" ").width;
+    const baseline = top + (style.size ?? opts.fontSize);
+    const ocrWords: OcrLine["words"] = [];
+    let cx = x;
+    for (const word of words) {
+      ctx.fillText(word.text, cx, baseline);
+      const m = ctx.measureText(word.text);
+      const box = {
+        x0: (cx - m.actualBoundingBoxLeft) * dpi,
+        y0: (baseline - m.actualBoundingBoxAscent) * dpi,
+        x1: (cx + m.actualBoundingBoxRight) * dpi,
+        y1: (baseline + m.actualBoundingBoxDescent) * dpi,
+      };
+      ocrWords.push({
+        text: word.text,
+        conf: int(rng, 88, 97),
+        bbox: { x: Math.round(box.x0), y: Math.round(box.y0), w: Math.round(box.x1 - box.x0), h: Math.round(box.y1 - box.y0) },
+      });
+      if (word.key && word.type) {
+        const entry = truth.get(word.key) ?? { type: word.type, text: [], boxes: [] };
+        entry.text.push(word.text);
+        entry.boxes.push(box);
+        truth.set(word.key, entry);
+      }
+      cx += m.width + space;
+    }
+
+    let joined = "";
+    const spans: OcrLine["spans"] = [];
+    ocrWords.forEach((w, wordIdx) => {
+      if (joined) joined += " ";
+      spans.push({ start: joined.length, end: joined.length + w.text.length, wordIdx });
+      joined += w.text;
+    });
+    const inked = ocrWords.reduce((sum, w) => sum + w.bbox.w, 0);
+    lines.push({ words: ocrWords, joined, spans, meanCharWidth: inked / Math.max(1, joined.replace(/\s/g, "").length) });
+  }
+
+  const lineHeight = (style: TextStyle = {}) => Math.round((style.size ?? opts.fontSize) * 1.45);
+
+  // Wraps at spaces like a chat bubble; a single token wider than the box is
+  // broken mid-token, the way long emails and URLs wrap
+  function wrap(maxWidth: number, words: Word[], style: TextStyle): Word[][] {
+    ctx.font = font(style);
+    const space = ctx.measureText(" ").width;
+    const rows: Word[][] = [[]];
+    let used = 0;
+    for (const word of words) {
+      let rest: Word = word;
+      for (;;) {
+        const w = ctx.measureText(rest.text).width;
+        const row = rows[rows.length - 1];
+        const needed = (row.length ? space : 0) + w;
+        if (used + needed <= maxWidth) {
+          row.push(rest);
+          used += needed;
+          break;
+        }
+        if (row.length && w <= maxWidth) {
+          rows.push([rest]);
+          used = w;
+          break;
+        }
+        // Break the token at the last character that still fits, on a fresh row if little is left
+        const room = maxWidth - used - (row.length ? space : 0);
+        if (row.length && room < maxWidth * 0.3) {
+          rows.push([]);
+          used = 0;
+          continue;
+        }
+        let cut = rest.text.length - 1;
+        while (cut > 1 && ctx.measureText(rest.text.slice(0, cut)).width > room) cut--;
+        row.push({ ...rest, text: rest.text.slice(0, cut) });
+        rows.push([]);
+        used = 0;
+        rest = { ...rest, text: rest.text.slice(cut) };
+      }
+    }
+    return rows.filter((row) => row.length);
+  }
+
+  return {
+    ctx,
+    theme,
+    lineHeight,
+
+    rect(x: number, y: number, w: number, h: number, color: string, radius = 0): void {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.roundRect(x, y, w, h, radius);
+      ctx.fill();
+    },
+
+    measure(text: string, style: TextStyle = {}): number {
+      ctx.font = font(style);
+      return ctx.measureText(text).width;
+    },
+
+    text(x: number, top: number, segments: Segment[], style: TextStyle = {}): void {
+      drawLine(x, top, toWords(segments), style);
+    },
+
+    // Rows a paragraph will take, so a bubble can be drawn behind it first
+    rows(maxWidth: number, segments: Segment[], style: TextStyle = {}): number {
+      return wrap(maxWidth, toWords(segments), style).length;
+    },
+
+    // Returns the number of rows drawn
+    paragraph(x: number, top: number, maxWidth: number, segments: Segment[], style: TextStyle = {}): number {
+      const rows = wrap(maxWidth, toWords(segments), style);
+      rows.forEach((row, i) => drawLine(x, top + i * lineHeight(style), row, style));
+      return rows.length;
+    },
+
+    png(): Buffer {
+      return canvas.toBuffer("image/png");
+    },
+
+    // Ground truth plus the OCR a perfect engine would return, in the eval harness's fixture format
+    fixture(name: string, description: string): Fixture {
+      const boxes: TruthBox[] = [...truth.values()].map((entry) => ({
+        type: entry.type,
+        text: entry.text.join(" "),
+        bbox: {
+          x0: Math.round(Math.min(...entry.boxes.map((b) => b.x0))),
+          y0: Math.round(Math.min(...entry.boxes.map((b) => b.y0))),
+          x1: Math.round(Math.max(...entry.boxes.map((b) => b.x1))),
+          y1: Math.round(Math.max(...entry.boxes.map((b) => b.y1))),
+        },
+      }));
+      return {
+        name,
+        description,
+        ocr: { width: canvas.width, height: canvas.height, scaleX: 1, scaleY: 1, lines },
+        truth: boxes,
+      };
+    },
+  };
+}
+
+export type Page = ReturnType<typeof createPage>;